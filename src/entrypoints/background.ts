@@ -7,6 +7,71 @@ import {
   processResponseHeaders,
   processResponseBody
 } from './background/regex-handler';
+import { enableFetchDomain } from './background/capture-handler';
+import { DebuggerSession, sessionTarget, enableAutoAttach, setupChildTarget } from './background/target-handler';
+import {
+  passiveEntryId,
+  toHeaderList,
+  formatRequestBody,
+  buildPassiveRawRequest,
+  buildPassiveRawResponse,
+  passiveResourceTypes
+} from './background/passive-capture-handler';
+import { REPLAY_ID_HEADER, FetchResult, executeReplayFetch, runReplayInTab, findActiveWebTab, openIsolatedTab } from './background/replay-handler';
+import { ReplayOptions, ReplayRequest, ReplayResult, RedirectHop, DEFAULT_REPLAY_OPTIONS, buildRawResponse } from './popup/services/replay-service';
+import { runThrottled, MAX_INTRUDER_RESPONSE_LENGTH } from './background/intruder-handler';
+import { ReleaseGate, createReleaseGate } from './background/race-handler';
+import {
+  RaceConfig,
+  RaceRunResult,
+  RaceCopyResult,
+  MAX_RACE_COPIES,
+  RACE_GATE_TIMEOUT,
+  RACE_PAGE_DELAY,
+  groupRaceResults
+} from './popup/services/race-service';
+import {
+  IntruderConfig,
+  IntruderAttackState,
+  IntruderResultDetail,
+  MAX_ATTACK_REQUESTS,
+  PAYLOAD_MARKER,
+  parsePayloadPositions,
+  generatePayloads,
+  countAttackRequests,
+  generateAttackRequests,
+  compileGrepPattern,
+  extractFromResponse
+} from './popup/services/intruder-service';
+import { processPayloads } from './popup/services/payload-processing-service';
+import { captureService, matchesCapturePatterns, TargetOrigin, TARGET_TYPE_LABELS, DEFAULT_CAPTURE_SETTINGS } from './popup/services/capture-service';
+import { enableNetworkDomain, mergeNetworkEvent, toHeaderArray } from './background/network-handler';
+import { NetworkInfo, NetworkTiming } from './popup/services/network-info-service';
+import {
+  mergeWebSocketEvent,
+  sendOnLiveWebSocket,
+  openRepeaterSocket,
+  sendRepeaterSocket,
+  closeRepeaterSocket
+} from './background/websocket-handler';
+import { WebSocketRepeaterSession, createWebSocketInfo, appendFrame } from './popup/services/websocket-service';
+import { startResourceStreaming, getResponseBodyWithTimeout } from './background/event-stream-handler';
+import {
+  createEventStreamInfo,
+  isStreamingMimeType,
+  appendStreamChunk,
+  appendStreamEvent,
+  finishEventStream
+} from './popup/services/event-stream-service';
+import { base64ToBytes, bytesToBase64, detectMimeType, isTextMimeType, binaryBodyPlaceholder } from './popup/services/body-service';
+import { tabTargetService, TabTargetSettings, TabTargetUrls, isTabTargeted, restoreTabTargets, DEFAULT_TAB_TARGET_SETTINGS } from './popup/services/tab-target-service';
+import { scopeService, isUrlInScope, DEFAULT_SCOPE_SETTINGS } from './popup/services/scope-service';
+import { interceptRuleService, shouldInterceptRequest, DEFAULT_INTERCEPT_RULE_SETTINGS } from './popup/services/intercept-rule-service';
+import { matchReplaceService, MatchReplaceRule, applyRequestRules, applyResponseRules } from './popup/services/match-replace-service';
+import { fulfillWithMapLocalRule } from './background/map-local-handler';
+import { mapLocalService, MapLocalRule, findMapLocalRule, buildMockRawResponse, parseHeaderLines } from './popup/services/map-local-service';
+import { mapRemoteService, MapRemoteRule, applyMapRemoteRules } from './popup/services/map-remote-service';
+import { historyService, DEFAULT_HISTORY_RETENTION_SETTINGS } from './popup/services/history-service';
 import { FingerprintService } from './popup/services/fingerprint-service';
 
 function parseRawRequest(rawRequest: string) {
@@ -35,6 +100,84 @@ function parseRawRequest(rawRequest: string) {
   return { method, url, headers, postData: body };
 }
 
+// 解析编辑后的原始响应（状态行、响应头、响应体）
+function parseRawResponse(rawResponse: string) {
+  const normalized = rawResponse.replace(/\r/g, '');
+  const separatorIndex = normalized.indexOf('\n\n');
+  const head = separatorIndex === -1 ? normalized : normalized.substring(0, separatorIndex);
+  const body = separatorIndex === -1 ? '' : normalized.substring(separatorIndex + 2);
+  const lines = head.split('\n');
+  const statusLine = lines.shift() || '';
+  const statusMatch = statusLine.match(/^HTTP\/[\d.]+\s+(\d{3})\s*(.*)$/);
+
+  const headers: { name: string; value: string }[] = [];
+  for (const line of lines) {
+    const colonIndex = line.indexOf(':');
+    if (colonIndex > 0) {
+      headers.push({ name: line.substring(0, colonIndex).trim(), value: line.substring(colonIndex + 1).trim() });
+    }
+  }
+  return {
+    statusCode: statusMatch ? parseInt(statusMatch[1], 10) : 200,
+    statusText: statusMatch ? statusMatch[2] : '',
+    headers,
+    body
+  };
+}
+
+type RequestHeader = { name: string; value: string };
+type RequestSnapshot = { method: string; url: string; headers: RequestHeader[]; postData?: string };
+
+// 根据编辑器内容构建放行的响应，与显示内容相同的响应头和响应体使用正则处理前的值
+function buildFulfilledResponse(entry: any, rawResponse: string) {
+  const base: { headers: RequestHeader[]; body: string } = entry.unprocessedResponse;
+  const displayed = parseRawResponse(entry.rawResponse || '');
+  const edited = parseRawResponse(rawResponse);
+  if (!base) return edited;
+  return {
+    ...edited,
+    // 显示的响应头与base.headers一一对应
+    headers: edited.headers.map(header => {
+      const index = displayed.headers.findIndex(h => h.name === header.name && h.value === header.value);
+      return index !== -1 && base.headers[index] ? base.headers[index] : header;
+    }),
+    body: edited.body === displayed.body ? base.body : edited.body
+  };
+}
+
+// 调试器拦截到的原始请求
+const snapshotOf = (request: any): RequestSnapshot => ({
+  method: request.method,
+  url: request.url,
+  headers: Object.entries(request.headers || {}).map(([name, value]) => ({ name, value: String(value) })),
+  postData: request.postData
+});
+
+const isSameRequest = (a: RequestSnapshot, b: RequestSnapshot) =>
+  a.method === b.method && a.url === b.url && a.postData === b.postData &&
+  a.headers.length === b.headers.length &&
+  a.headers.every((h, i) => h.name === b.headers[i].name && h.value === b.headers[i].value);
+
+// 根据编辑器内容构建放行的请求。编辑器显示的是经过正则处理的值，
+// 与显示内容相同的部分使用未处理的值，只有用户实际改动的部分使用编辑后的值
+function buildForwardedRequest(entry: any, rawRequest: string, editedHeaders?: RequestHeader[]): RequestSnapshot {
+  // 匹配替换和远程映射规则改写的是实际请求，以其结果为准
+  const base: RequestSnapshot = entry.forwardedRequest || snapshotOf(entry.request);
+  const displayed = parseRawRequest(entry.rawRequest || '');
+  const edited = parseRawRequest(rawRequest);
+  const displayedHeaders: RequestHeader[] = entry.requestHeaders || displayed.headers;
+  return {
+    method: edited.method && edited.method !== displayed.method ? edited.method : base.method,
+    url: edited.url && edited.url !== displayed.url ? edited.url : base.url,
+    // 显示的请求头与base.headers一一对应
+    headers: (editedHeaders || edited.headers).map(header => {
+      const index = displayedHeaders.findIndex(h => h.name === header.name && h.value === header.value);
+      return index !== -1 && base.headers[index] ? base.headers[index] : header;
+    }),
+    postData: edited.postData !== displayed.postData ? edited.postData : base.postData
+  };
+}
+
 // Helper to parse charset from Content-Type header
 const getCharset = (headers: {name: string, value: string}[]): string => {
     const contentType = headers.find(h => h.name.toLowerCase() === 'content-type');
@@ -86,25 +229,105 @@ export default defineBackground(() => {
 
   let isEnabled = false;
   let mode: 'intercept' | 'proxy' = 'intercept';
+  let interceptResponses = false;
   let requestsStore: any[] = [];
   const attachedTabs = new Map<number, string>();
+  const attachingTabs = new Set<number>(); // 正在附加中的标签页，避免重复附加
+  // 调试器无法附加（如已打开开发者工具）的标签页，退化为通过webRequest被动捕获
+  const passiveTabs = new Set<number>();
+  // 自动附加的子目标（跨进程iframe、worker），按sessionId保存
+  const childSessions = new Map<string, TargetOrigin & { tabId: number }>();
   const version = '1.3';
   const pendingActions = new Set<string>();
   
-  // Updated maps to handle the replay-via-debugger flow, now with timeout IDs
-  // 更新replayDataStore的类型定义
-  const replayDataStore = new Map<string, { 
-    originalId: string, 
-    replayId: string, // 添加replayId字段
-    headers: any[], 
-    postData?: string, 
-    timeoutId: ReturnType<typeof setTimeout> 
+  // 经过调试器的重放请求，按标记头中的replayId关联，记录重定向链、最终响应和耗时
+  const replayJobs = new Map<string, {
+    request: ReplayRequest,
+    injected: boolean, // requestPaused已按输入内容替换请求头
+    redirects: RedirectHop[],
+    lastResponse?: { status: number, statusText: string, headers: { name: string; value: string }[] },
+    timing?: NetworkTiming,
+    finished: boolean,
+    gate?: ReleaseGate, // 竞争测试：暂停后等待同批副本一起放行
+    releasedAt?: number
   }>();
-  const replayIdToOriginalIdMap = new Map<string, string>(); // Maps new requestId to original request's ID
+  const replayNetworkIds = new Map<string, string>(); // networkId -> replayId
+  // 重放期间追加的Fetch模式，保证带标记头的请求一定暂停：tabId -> (urlPattern -> 使用中的重放数)
+  const replayFetchPatterns = new Map<number, Map<string, number>>();
+  const fetchPatternUpdates = new Map<number, Promise<void>>();
+  // 作为独立重放环境打开的标签页，不参与抓包
+  const isolatedReplayTabs = new Set<number>();
+  // 等待重放请求的Network事件（耗时在loadingFinished时才计算）
+  const REPLAY_TIMING_WAIT = 200;
+
+  // 请求历史持久化到IndexedDB，内存中只保留最近的请求和暂停中的请求
+  const LIVE_REQUESTS_LIMIT = 200;
+  const RETENTION_INTERVAL = 60 * 1000;
+  // 等待响应的请求在内存中最多保留的时间，超过后允许裁剪（未开启响应阶段时不会有响应）
+  const AWAITING_RESPONSE_KEEP = 5 * 60 * 1000;
+  let historyRetentionSettings = DEFAULT_HISTORY_RETENTION_SETTINGS;
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastRetentionAt = 0;
 
   // API请求白名单，这些URL不会被拦截
   let apiWhitelist: string[] = [];
 
+  // 抓包设置，决定Fetch域暂停哪些请求
+  let captureSettings = DEFAULT_CAPTURE_SETTINGS;
+
+  // 抓包目标，只附加调试器到选中的标签页
+  let tabTargetSettings = DEFAULT_TAB_TARGET_SETTINGS;
+  let tabTargetUrls: TabTargetUrls = {};
+
+  // 目标范围，范围外的请求直接放行且不会记录
+  let scopeSettings = DEFAULT_SCOPE_SETTINGS;
+
+  // 拦截规则，决定拦截模式下哪些范围内的请求需要暂停
+  let interceptRuleSettings = DEFAULT_INTERCEPT_RULE_SETTINGS;
+
+  // 本地映射规则，命中时直接返回本地响应
+  let mapLocalRules: MapLocalRule[] = [];
+
+  // 远程映射规则，将请求转发到其他主机/端口/路径
+  let mapRemoteRules: MapRemoteRule[] = [];
+
+  // 匹配替换规则，改写实际发出的请求和页面收到的响应
+  let matchReplaceRules: MatchReplaceRule[] = [];
+  // 匹配替换、远程映射生成的放行参数，按请求ID保存，放行时使用
+  const trafficRuleOverrides = new Map<string, {
+    command: 'Fetch.continueRequest' | 'Fetch.fulfillRequest',
+    params: Record<string, any>
+  }>();
+
+  // Network域事件收集的网络信息，按networkId保存，请求结束后写入对应的请求
+  const NETWORK_INFO_LIMIT = 1000;
+  const networkInfoStore = new Map<string, NetworkInfo>();
+
+  // WebSocket帧、流式响应数据、被动捕获事件频繁到达时合并广播
+  const STREAM_BROADCAST_DELAY = 200;
+  let streamBroadcastTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // 测试器当前的攻击，完整请求和响应单独保存，广播时只发送结果摘要
+  let intruderAttack: IntruderAttackState | null = null;
+  const intruderDetails = new Map<number, IntruderResultDetail>();
+  const INTRUDER_BROADCAST_DELAY = 300;
+  let intruderBroadcastTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // 读取响应体的超时时间，超时的响应按流式响应处理
+  const RESPONSE_BODY_TIMEOUT = 10 * 1000;
+  // 流式响应的解码器，按networkId保存
+  const streamDecoders = new Map<string, TextDecoder>();
+
+  // WS重放会话，只保存在内存中
+  let webSocketRepeaterSessions: WebSocketRepeaterSession[] = [];
+
+  const broadcastWebSocketRepeaterUpdate = () => {
+    browser.runtime.sendMessage({
+      action: 'ws-repeater-update',
+      data: webSocketRepeaterSessions,
+    }).catch(() => { /* Ignore errors */ });
+  };
+
   function updateBadge(enabled: boolean) {
     if (enabled) {
       browser.action.setBadgeText({ text: 'ON' });
@@ -115,40 +338,35 @@ export default defineBackground(() => {
   }
 
   async function attachDebugger(tabId: number) {
-    if (attachedTabs.has(tabId)) return;
+    if (attachedTabs.has(tabId) || attachingTabs.has(tabId)) return;
     
+    attachingTabs.add(tabId);
     try {
       await chrome.debugger.attach({ tabId }, version);
       attachedTabs.set(tabId, version);
-      await chrome.debugger.sendCommand({ tabId }, 'Fetch.enable', {
-        patterns: [{ 
-            requestStage: 'Request',
-            resourceType: 'Document'
-        }, { 
-            requestStage: 'Request',
-            resourceType: 'XHR'
-        },{
-            requestStage: 'Response',
-            resourceType: 'Document'
-        }, {
-            requestStage: 'Response',
-            resourceType: 'XHR'
-        }],
-      });
+      passiveTabs.delete(tabId);
+      await enableFetchDomain({ tabId }, await captureService.loadSettings());
+      await enableNetworkDomain({ tabId });
+      // 跨进程iframe和worker有各自的调试目标，自动附加后才能捕获它们发出的请求
+      await enableAutoAttach({ tabId }).catch(e => console.error(`标签页 ${tabId} 开启自动附加失败:`, e));
     } catch (error: any) {
       attachedTabs.delete(tabId);
+      passiveTabs.add(tabId);
       if (error.message.includes('another debugger')) {
         browser.notifications.create(`attach-fail-${tabId}`, {
           type: 'basic',
           iconUrl: 'icon/128.png',
           title: '附加调试器失败',
-          message: `无法附加到标签页 ${tabId}。请确保该标签页未打开开发者工具(F12)。`,
+          message: `无法附加到标签页 ${tabId}，已改为被动捕获（无响应体，不能拦截）。关闭开发者工具(F12)后刷新页面可恢复。`,
         });
       }
+    } finally {
+      attachingTabs.delete(tabId);
     }
   }
 
   async function detachDebugger(tabId: number) {
+    passiveTabs.delete(tabId);
     if (!attachedTabs.has(tabId)) return;
     try {
       await chrome.debugger.detach({ tabId });
@@ -156,29 +374,150 @@ export default defineBackground(() => {
       // 静默处理
     } finally {
       attachedTabs.delete(tabId);
+      removeChildSessions(tabId);
     }
   }
 
-  async function toggleAllTabs(shouldEnable: boolean) {
-    isEnabled = shouldEnable;
-    updateBadge(isEnabled);
-    const tabs = await browser.tabs.query({ url: ['http://*/*', 'https://*/*'] });
+  function removeChildSessions(tabId: number) {
+    for (const [sessionId, child] of childSessions) {
+      if (child.tabId === tabId) childSessions.delete(sessionId);
+    }
+  }
+
+  // 请求所在的调试目标，子目标中的请求需要带上sessionId
+  const entryTarget = (entry: any): DebuggerSession => sessionTarget(entry.tabId, entry.sessionId);
+
+  // 子目标附加后启用抓包；只接管会发出网络请求的类型，其余直接恢复运行
+  async function handleTargetAttached(tabId: number, params: any) {
+    const { sessionId, targetInfo } = params;
+    const target = sessionTarget(tabId, sessionId);
+    if (!(targetInfo.type in TARGET_TYPE_LABELS)) {
+      chrome.debugger.sendCommand(target, 'Runtime.runIfWaitingForDebugger', {}).catch(() => {});
+      return;
+    }
+    childSessions.set(sessionId, { tabId, type: targetInfo.type, url: targetInfo.url, title: targetInfo.title || undefined });
+    try {
+      await setupChildTarget(target, await captureService.loadSettings());
+    } catch (e) {
+      console.error(`子目标 ${targetInfo.type} ${targetInfo.url} 启用抓包失败:`, e);
+    }
+  }
+
+  // 按抓包设置和重放期间追加的模式重新启用标签页的Fetch域，同一标签页的更新依次执行
+  function updateTabFetchPatterns(tabId: number): Promise<void> {
+    const update = (fetchPatternUpdates.get(tabId) || Promise.resolve()).then(async () => {
+      if (!attachedTabs.has(tabId)) return;
+      const extraPatterns = Array.from(replayFetchPatterns.get(tabId)?.keys() || [])
+        .map(urlPattern => ({ urlPattern, resourceType: 'Fetch', requestStage: 'Request' as const }));
+      await enableFetchDomain({ tabId }, captureSettings, extraPatterns);
+    }).catch(error => console.error(`更新标签页 ${tabId} 的抓包设置失败:`, error));
+    fetchPatternUpdates.set(tabId, update);
+    return update;
+  }
+
+  // 重放期间为目标源追加Fetch模式，不受抓包设置中资源类型和URL的限制；返回重放结束后的移除函数
+  async function holdReplayPattern(tabId: number, url: string): Promise<() => void> {
+    const urlPattern = `${new URL(url).origin.replace(/[*?\\]/g, '\\$&')}/*`;
+    const patterns = replayFetchPatterns.get(tabId) || new Map<string, number>();
+    replayFetchPatterns.set(tabId, patterns);
+    const count = patterns.get(urlPattern) || 0;
+    patterns.set(urlPattern, count + 1);
+    // 模式已存在时也要等它生效
+    await (count === 0 ? updateTabFetchPatterns(tabId) : fetchPatternUpdates.get(tabId));
+    return () => {
+      const remaining = (patterns.get(urlPattern) || 1) - 1;
+      if (remaining > 0) {
+        patterns.set(urlPattern, remaining);
+        return;
+      }
+      patterns.delete(urlPattern);
+      if (patterns.size === 0) replayFetchPatterns.delete(tabId);
+      updateTabFetchPatterns(tabId);
+    };
+  }
+
+  // 抓包设置变化时，将新的Fetch patterns实时应用到所有已附加的标签页
+  async function reapplyCaptureSettings() {
+    captureSettings = await captureService.loadSettings();
+    for (const tabId of attachedTabs.keys()) {
+      await updateTabFetchPatterns(tabId);
+    }
+    for (const [sessionId, child] of childSessions) {
+      await enableFetchDomain(sessionTarget(child.tabId, sessionId), captureSettings)
+        .catch(error => console.error(`更新子目标 ${child.url} 的抓包设置失败:`, error));
+    }
+  }
+
+  // 标签页是否属于抓包目标（独立重放标签页由重放自行附加）
+  const shouldCaptureTab = (tab: browser.Tabs.Tab) =>
+    isTabTargeted(tab, tabTargetSettings) && !isolatedReplayTabs.has(tab.id!);
+
+  // 按抓包目标逐个标签页附加或分离调试器
+  async function syncAttachedTabs() {
+    const tabs = await browser.tabs.query({});
     for (const tab of tabs) {
-      if (tab.id) {
-        if (shouldEnable) {
-          await attachDebugger(tab.id);
-        } else {
-          await detachDebugger(tab.id);
-        }
+      if (!tab.id || isolatedReplayTabs.has(tab.id)) continue;
+      if (isEnabled && shouldCaptureTab(tab)) {
+        await attachDebugger(tab.id);
+      } else {
+        await detachDebugger(tab.id);
       }
     }
   }
+
+  async function setCaptureEnabled(shouldEnable: boolean) {
+    isEnabled = shouldEnable;
+    updateBadge(isEnabled);
+    await syncAttachedTabs();
+  }
   
+  // 浏览器重启后标签页ID全部变化，session存储也会清空，借此判断是否需要重新对应抓包目标
+  async function restoreTabTargetsAfterRestart(settings: TabTargetSettings): Promise<TabTargetSettings> {
+    try {
+      const { tabTargetsRestored } = await chrome.storage.session.get('tabTargetsRestored');
+      if (tabTargetsRestored) return settings;
+      await chrome.storage.session.set({ tabTargetsRestored: true });
+      const tabs = await browser.tabs.query({ url: ['http://*/*', 'https://*/*'] });
+      const restored = restoreTabTargets(settings, tabTargetUrls, tabs, await tabTargetService.getCurrentTab());
+      await tabTargetService.saveSettings(restored);
+      return restored;
+    } catch (error) {
+      console.error('恢复抓包目标失败:', error);
+      return settings;
+    }
+  }
+
+  // 按current/selected模式的目标标签页重新记录URL，只写单独的存储键
+  async function recordTabTargetUrls() {
+    const { mode, tabIds } = tabTargetSettings;
+    const targeted = mode === 'current' || mode === 'selected' ? tabIds : [];
+    const tabs = await browser.tabs.query({});
+    const urls: TabTargetUrls = {};
+    targeted.forEach(id => {
+      const tab = tabs.find(t => t.id === id);
+      if (tab) urls[id] = tab.url || '';
+    });
+    if (JSON.stringify(urls) === JSON.stringify(tabTargetUrls)) return;
+    tabTargetUrls = urls;
+    await tabTargetService.saveTabUrls(urls).catch(() => { /* 已在服务中记录 */ });
+  }
+
   // Initialization logic
   async function initialize() {
-    const result = await browser.storage.local.get(['networkInterceptorEnabled', 'networkInterceptorMode', 'aiApiEndpoint']);
+    const result = await browser.storage.local.get(['networkInterceptorEnabled', 'networkInterceptorMode', 'networkInterceptorInterceptResponses', 'aiApiEndpoint']);
     isEnabled = !!result.networkInterceptorEnabled;
     mode = result.networkInterceptorMode || 'intercept';
+    interceptResponses = !!result.networkInterceptorInterceptResponses;
+    scopeSettings = await scopeService.loadSettings();
+    captureSettings = await captureService.loadSettings();
+    tabTargetUrls = await tabTargetService.loadTabUrls();
+    tabTargetSettings = await restoreTabTargetsAfterRestart(await tabTargetService.loadSettings());
+    await recordTabTargetUrls();
+    interceptRuleSettings = await interceptRuleService.loadSettings();
+    matchReplaceRules = await matchReplaceService.loadRules();
+    mapLocalRules = await mapLocalService.loadRules();
+    mapRemoteRules = await mapRemoteService.loadRules();
+    historyRetentionSettings = await historyService.loadRetentionSettings();
     updateBadge(isEnabled);
     
     // 添加API端点到白名单
@@ -192,7 +531,7 @@ export default defineBackground(() => {
     }
     
     if (isEnabled) {
-      await toggleAllTabs(true);
+      await setCaptureEnabled(true);
     }
   }
 
@@ -203,36 +542,98 @@ export default defineBackground(() => {
       action: 'update-requests',
       data: requestsStore,
     }).catch(() => { /* Ignore errors */ });
+    schedulePersist();
   };
-  
-  // 使用webRequest API监听请求(静默)
 
-  // 监听请求头发送前
-  browser.webRequest.onBeforeSendHeaders.addListener(
-    (details) => {
-      // 查找是否有对应的请求正在等待修改
-      const requestIndex = requestsStore.findIndex(r => 
-        r.request.url === details.url && 
-        r.status === 'paused' &&
-        r.tabId === details.tabId
-      );
-      
-      if (requestIndex !== -1 && details.requestHeaders) {
-        // 存储原始请求头以供UI显示和编辑
-        const formattedHeaders = details.requestHeaders.map(h => ({
-          name: h.name,
-          value: h.value?.toString() || ''
-        }));
-        
-        requestsStore[requestIndex].requestHeaders = formattedHeaders;
-        broadcastRequestsUpdate();
+  // 合并短时间内的多次更新，统一写入历史库
+  function schedulePersist() {
+    if (persistTimer) return;
+    persistTimer = setTimeout(persistRequests, 500);
+  }
+
+  // 写入历史库，裁剪内存中的请求并按需执行保留策略
+  async function persistRequests() {
+    persistTimer = null;
+    try {
+      await historyService.putRequests(requestsStore);
+
+      const finishedCount = requestsStore.filter(r => r.status !== 'paused').length;
+      if (finishedCount > LIVE_REQUESTS_LIMIT) {
+        let toTrim = finishedCount - LIVE_REQUESTS_LIMIT;
+        requestsStore = requestsStore.filter(r => {
+          // 未关闭的WebSocket连接和流式响应仍在接收数据，保留在内存中
+          const isOpenStream = (r.webSocket && r.webSocket.state !== 'closed') ||
+            (r.eventStream && r.eventStream.state !== 'closed');
+          // 已放行但响应尚未到达的请求，响应阶段还要更新它
+          const isAwaitingResponse = r.rawResponse === undefined && Date.now() - (r.timestamp || 0) < AWAITING_RESPONSE_KEEP;
+          if (toTrim > 0 && r.status !== 'paused' && !pendingActions.has(r.id) && !isOpenStream && !isAwaitingResponse) {
+            toTrim--;
+            return false;
+          }
+          return true;
+        });
       }
-      
-      return { requestHeaders: details.requestHeaders };
-    },
-    { urls: ["<all_urls>"] },
-    ["requestHeaders"]
-  );
+
+      if (Date.now() - lastRetentionAt > RETENTION_INTERVAL) {
+        lastRetentionAt = Date.now();
+        await historyService.applyRetention(historyRetentionSettings);
+      }
+    } catch (e) {
+      console.error('保存请求历史失败:', e);
+    }
+  }
+
+  // 放行请求或响应，存在流量规则改写结果时按改写后的内容放行
+  async function continueWithOverrides(target: DebuggerSession, id: string, requestId: string) {
+    const override = trafficRuleOverrides.get(id);
+    trafficRuleOverrides.delete(id);
+    if (override) {
+      await chrome.debugger.sendCommand(target, override.command, { requestId, ...override.params });
+    } else {
+      await chrome.debugger.sendCommand(target, 'Fetch.continueRequest', { requestId });
+    }
+  }
+
+  // 丢弃暂停中的请求（请求或响应阶段均可），使用Fetch.failRequest返回指定的网络错误
+  async function dropPausedRequest(entry: any, errorReason: string) {
+    trafficRuleOverrides.delete(entry.id);
+    try {
+      await chrome.debugger.sendCommand(
+        entryTarget(entry), 'Fetch.failRequest', { requestId: entry.requestId, errorReason }
+      );
+      entry.rawResponse = `请求已丢弃 (${errorReason})`;
+    } catch (e) {
+      const errorStr = e instanceof Error ? e.message : JSON.stringify(e);
+      console.error(`Failed to drop request ${entry.id}:`, errorStr);
+      entry.rawResponse = errorStr.includes('Invalid InterceptionId') || errorStr.includes('-32602')
+        ? '请求已自动完成或超时'
+        : `丢弃失败: ${errorStr}`;
+    } finally {
+      entry.status = 'finished';
+      entry.pausedStage = undefined;
+      entry.unprocessedResponse = undefined;
+      entry.droppedReason = errorReason;
+    }
+  }
+
+  // 原样放行暂停中的请求（不应用编辑器中的修改，匹配替换规则仍然生效）
+  async function continuePausedRequest(entry: any) {
+    try {
+      await continueWithOverrides(entryTarget(entry), entry.id, entry.requestId);
+    } catch (e) {
+      const errorStr = e instanceof Error ? e.message : JSON.stringify(e);
+      console.error(`Failed to continue request ${entry.id}:`, errorStr);
+      entry.rawResponse = errorStr.includes('Invalid InterceptionId') || errorStr.includes('-32602')
+        ? '请求已自动完成或超时'
+        : `放行失败: ${errorStr}`;
+    } finally {
+      entry.status = 'finished';
+      entry.pausedStage = undefined;
+      entry.unprocessedResponse = undefined;
+    }
+  }
+  
+  // 使用webRequest API监听请求(静默)
 
   // 监听响应头
   browser.webRequest.onHeadersReceived.addListener(
@@ -243,6 +644,7 @@ export default defineBackground(() => {
         r.tabId === details.tabId
       );
       
+      // 范围外的请求不会进入requestsStore，因此也不会进行指纹识别
       if (requestIndex !== -1 && details.responseHeaders) {
         // 存储响应头
         const formattedHeaders = details.responseHeaders.map(h => ({
@@ -302,12 +704,596 @@ export default defineBackground(() => {
     { urls: ["<all_urls>"] },
     ["responseHeaders"]
   );
+
+  // 被动捕获：只记录URL、方法、头部、表单请求体和状态，不能暂停请求也拿不到响应体；
+  // 按抓包设置的资源类型和URL模式过滤，事件频繁时合并广播
+  const isPassiveCapture = (tabId: number) => isEnabled && passiveTabs.has(tabId);
+  const findPassiveEntry = (requestId: string) => requestsStore.find(r => r.id === passiveEntryId(requestId));
+
+  browser.webRequest.onBeforeRequest.addListener(
+    (details) => {
+      if (!isPassiveCapture(details.tabId) || !isUrlInScope(details.url, scopeSettings)) return;
+      if (!passiveResourceTypes(details.type).some(type => matchesCapturePatterns(captureSettings, type, details.url))) return;
+      const postData = formatRequestBody(details.requestBody);
+      requestsStore.push({
+        id: passiveEntryId(details.requestId), tabId: details.tabId, requestId: details.requestId,
+        request: { url: details.url, method: details.method, headers: {}, postData },
+        rawRequest: buildPassiveRawRequest(details.method, details.url, [], postData),
+        status: 'pending', isRedirect: false, timestamp: Date.now(), passive: true,
+      });
+      scheduleStreamBroadcast();
+    },
+    { urls: ["<all_urls>"] },
+    ["requestBody"]
+  );
+
+  browser.webRequest.onBeforeSendHeaders.addListener(
+    (details) => {
+      const entry = findPassiveEntry(details.requestId);
+      if (!entry) return;
+      const headers = toHeaderList(details.requestHeaders);
+      entry.requestHeaders = headers;
+      entry.request.headers = Object.fromEntries(headers.map(h => [h.name, h.value]));
+      entry.rawRequest = buildPassiveRawRequest(entry.request.method, entry.request.url, headers, entry.request.postData);
+      scheduleStreamBroadcast();
+    },
+    { urls: ["<all_urls>"] },
+    ["requestHeaders", "extraHeaders"]
+  );
+
+  browser.webRequest.onHeadersReceived.addListener(
+    (details) => {
+      const entry = findPassiveEntry(details.requestId);
+      if (!entry) return;
+      const headers = toHeaderList(details.responseHeaders);
+      entry.responseHeaders = headers;
+      entry.rawResponse = buildPassiveRawResponse(details.statusLine, headers);
+      scheduleStreamBroadcast();
+    },
+    { urls: ["<all_urls>"] },
+    ["responseHeaders", "extraHeaders"]
+  );
+
+  // 重定向沿用同一个webRequest requestId，先给已完成的这一跳换一个ID，下一跳重新记录
+  browser.webRequest.onBeforeRedirect.addListener(
+    (details) => {
+      const entry = findPassiveEntry(details.requestId);
+      if (!entry) return;
+      entry.id = `${entry.id}-${Date.now()}`;
+      entry.status = 'finished';
+      entry.network = { remoteAddress: details.ip, fromCache: details.fromCache };
+      scheduleStreamBroadcast();
+    },
+    { urls: ["<all_urls>"] }
+  );
+
+  browser.webRequest.onCompleted.addListener(
+    (details) => {
+      const entry = findPassiveEntry(details.requestId);
+      if (!entry) return;
+      entry.status = 'finished';
+      entry.network = { remoteAddress: details.ip, fromCache: details.fromCache };
+      scheduleStreamBroadcast();
+    },
+    { urls: ["<all_urls>"] }
+  );
+
+  browser.webRequest.onErrorOccurred.addListener(
+    (details) => {
+      const entry = findPassiveEntry(details.requestId);
+      if (!entry) return;
+      entry.status = 'failed';
+      entry.rawResponse = `请求失败: ${details.error}`;
+      entry.network = { ...entry.network, failed: details.error };
+      scheduleStreamBroadcast();
+    },
+    { urls: ["<all_urls>"] }
+  );
   
+  // 合并Network域事件，收到响应和请求结束时更新请求的网络信息
+  function handleNetworkEvent(method: string, params: any) {
+    const networkId = params?.requestId;
+    if (!networkId) return;
+
+    let info = networkInfoStore.get(networkId);
+    if (!info) {
+      // 请求结束后才到达的ExtraInfo事件直接合并到请求的网络信息中
+      const finishedEntry = requestsStore.find(r => r.id === networkId && r.network);
+      if (finishedEntry && method.endsWith('ExtraInfo')) {
+        mergeNetworkEvent(finishedEntry.network!, method, params);
+        broadcastRequestsUpdate();
+        return;
+      }
+      info = {};
+      networkInfoStore.set(networkId, info);
+      // 范围外的请求不会被记录，限制缓存数量防止泄漏
+      if (networkInfoStore.size > NETWORK_INFO_LIMIT) {
+        networkInfoStore.delete(networkInfoStore.keys().next().value!);
+      }
+    }
+
+    const finished = mergeNetworkEvent(info, method, params);
+    if (finished) {
+      networkInfoStore.delete(networkId);
+      const replayJob = replayJobs.get(replayNetworkIds.get(networkId) || '');
+      if (replayJob) {
+        replayJob.timing = info.timing;
+        replayJob.finished = true;
+      }
+    }
+    // ExtraInfo事件按requestId关联，记录网络栈实际发送和收到的头部
+    if (finished || method === 'Network.responseReceived' || method.endsWith('ExtraInfo')) {
+      const entry = requestsStore.find(r => r.id === networkId);
+      if (entry) {
+        const { startTime, resourceTiming, ...network } = info;
+        entry.network = network;
+        // 响应头阶段先静默更新，请求结束时统一广播
+        if (finished) {
+          broadcastRequestsUpdate();
+        }
+      }
+    }
+  }
+
+  const broadcastIntruderUpdate = () => {
+    browser.runtime.sendMessage({
+      action: 'intruder-update',
+      data: intruderAttack,
+    }).catch(() => { /* Ignore errors */ });
+  };
+
+  function scheduleIntruderBroadcast() {
+    if (intruderBroadcastTimer) return;
+    intruderBroadcastTimer = setTimeout(() => {
+      intruderBroadcastTimer = null;
+      broadcastIntruderUpdate();
+    }, INTRUDER_BROADCAST_DELAY);
+  }
+
+  function scheduleStreamBroadcast() {
+    if (streamBroadcastTimer) return;
+    streamBroadcastTimer = setTimeout(() => {
+      streamBroadcastTimer = null;
+      broadcastRequestsUpdate();
+    }, STREAM_BROADCAST_DELAY);
+  }
+
+  // 记录流式响应的事件：EventSource直接使用eventSourceMessageReceived，其他流式响应解析数据流
+  async function handleEventStreamEvent(target: DebuggerSession, method: string, params: any) {
+    // 抓包设置不包含EventSource时Fetch域不会暂停它，从Network域记录连接
+    if (method === 'Network.requestWillBeSent' && params.type === 'EventSource') {
+      const { url, method: requestMethod, headers } = params.request;
+      if (matchesCapturePatterns(captureSettings, 'EventSource', url) || !isUrlInScope(url, scopeSettings) ||
+          requestsStore.some(r => r.id === params.requestId)) return;
+      const requestHeaders = toHeaderArray(headers);
+      requestsStore.push({
+        id: params.requestId, tabId: target.tabId, requestId: params.requestId, sessionId: target.sessionId,
+        targetOrigin: target.sessionId ? childSessions.get(target.sessionId) : undefined,
+        request: { url, method: requestMethod, headers },
+        rawRequest: `${requestMethod} ${url} HTTP/1.1\r\n${requestHeaders.map(h => `${h.name}: ${h.value}\r\n`).join('')}`,
+        requestHeaders,
+        status: 'finished', isRedirect: false, timestamp: Date.now(),
+        eventStream: createEventStreamInfo('text/event-stream', 'eventsource'),
+      });
+      broadcastRequestsUpdate();
+      return;
+    }
+
+    const entry = requestsStore.find(r => r.id === params?.requestId);
+    if (!entry) return;
+
+    if (method === 'Network.eventSourceMessageReceived') {
+      if (!entry.eventStream || entry.eventStream.source !== 'eventsource') {
+        entry.eventStream = createEventStreamInfo('text/event-stream', 'eventsource');
+      }
+      appendStreamEvent(entry.eventStream, {
+        time: Date.now(), event: params.eventName || undefined, eventId: params.eventId || undefined, data: params.data
+      });
+      scheduleStreamBroadcast();
+      return;
+    }
+
+    const stream = entry.eventStream;
+    if (!stream) return;
+
+    if (method === 'Network.responseReceived') {
+      if (params.type === 'EventSource') {
+        stream.source = 'eventsource';
+        // 从Network域记录的连接没有经过响应阶段，在这里补上响应头
+        if (entry.rawResponse === undefined) {
+          const { status, statusText, headers } = params.response;
+          entry.responseHeaders = toHeaderArray(headers);
+          entry.rawResponse = `HTTP/1.1 ${status}${statusText ? ` ${statusText}` : ''}\r\n` +
+            `${entry.responseHeaders.map((h: { name: string; value: string }) => `${h.name}: ${h.value}\r\n`).join('')}\r\n[流式响应，数据见事件列表]`;
+          entry.mimeType = 'text/event-stream';
+          broadcastRequestsUpdate();
+        }
+        return;
+      }
+      const decoder = new TextDecoder();
+      streamDecoders.set(entry.id, decoder);
+      try {
+        const buffered = await startResourceStreaming(target, entry.id);
+        appendStreamChunk(stream, decoder.decode(buffered, { stream: true }));
+        scheduleStreamBroadcast();
+      } catch (e) {
+        streamDecoders.delete(entry.id);
+        console.error(`开始接收流式响应 ${entry.id} 失败:`, e);
+      }
+    } else if (method === 'Network.dataReceived') {
+      const decoder = streamDecoders.get(entry.id);
+      if (decoder && params.data) {
+        appendStreamChunk(stream, decoder.decode(base64ToBytes(params.data), { stream: true }));
+        scheduleStreamBroadcast();
+      }
+    } else if (method === 'Network.loadingFinished' || method === 'Network.loadingFailed') {
+      const decoder = streamDecoders.get(entry.id);
+      streamDecoders.delete(entry.id);
+      if (decoder) {
+        appendStreamChunk(stream, decoder.decode());
+      }
+      finishEventStream(stream);
+      broadcastRequestsUpdate();
+    }
+  }
+
+  // 记录WebSocket连接和收发的帧
+  function handleWebSocketEvent(target: DebuggerSession, method: string, params: any) {
+    if (method === 'Network.webSocketCreated') {
+      const httpUrl = params.url.replace(/^ws/i, 'http');
+      if (!isUrlInScope(httpUrl, scopeSettings) || requestsStore.some(r => r.id === params.requestId)) return;
+      requestsStore.push({
+        id: params.requestId, tabId: target.tabId, requestId: params.requestId, sessionId: target.sessionId,
+        targetOrigin: target.sessionId ? childSessions.get(target.sessionId) : undefined,
+        request: { url: params.url, method: 'GET', headers: {} },
+        rawRequest: `GET ${params.url} HTTP/1.1\r\n`,
+        status: 'finished', isRedirect: false, timestamp: Date.now(),
+        webSocket: createWebSocketInfo(),
+      });
+      broadcastRequestsUpdate();
+      return;
+    }
+
+    const entry = requestsStore.find(r => r.id === params.requestId && r.webSocket);
+    if (!entry) return;
+    mergeWebSocketEvent(entry, method, params);
+
+    // 在原连接上重放时，把之后收到的帧同步到重放会话，便于对照响应
+    const liveSessions = webSocketRepeaterSessions.filter(s => s.mode === 'live' && s.connectionId === entry.id);
+    if (liveSessions.length > 0) {
+      liveSessions.forEach(session => {
+        session.socket.state = entry.webSocket.state;
+        if (method === 'Network.webSocketFrameReceived') {
+          appendFrame(session.socket, {
+            direction: 'received', opcode: params.response.opcode,
+            payloadData: params.response.payloadData || '', time: Date.now()
+          });
+        }
+      });
+      broadcastWebSocketRepeaterUpdate();
+    }
+
+    if (method === 'Network.webSocketFrameSent' || method === 'Network.webSocketFrameReceived') {
+      scheduleStreamBroadcast();
+    } else {
+      broadcastRequestsUpdate();
+    }
+  }
+
+  // 记录重放请求的重定向链和最终响应（不跟随重定向时fetch只能拿到opaqueredirect，状态和头部从这里取）
+  function trackReplayNetworkEvent(method: string, params: any) {
+    const job = replayJobs.get(replayNetworkIds.get(params?.requestId) || '');
+    if (!job) return;
+    if (method === 'Network.requestWillBeSent' && params.redirectResponse) {
+      const { url, status, headers } = params.redirectResponse;
+      const location = toHeaderArray(headers).find(h => h.name.toLowerCase() === 'location')?.value;
+      job.redirects.push({ url, status, location });
+    } else if (method === 'Network.responseReceived') {
+      const { status, statusText, headers } = params.response;
+      job.lastResponse = { status, statusText, headers: toHeaderArray(headers) };
+    }
+  }
+
+  // 在目标页面中执行重放，来源页面已关闭或无法注入时改用当前活动的网页
+  async function replayInPage(
+    tabId: number | undefined, request: ReplayRequest, options: ReplayOptions, replayId: string, startAt?: number
+  ): Promise<FetchResult> {
+    // 已附加调试器的标签页带上标记头，由requestPaused替换请求头
+    const runInTab = async (id: number) => {
+      if (!attachedTabs.has(id)) {
+        return runReplayInTab(id, request, options, undefined, startAt);
+      }
+      const releasePattern = await holdReplayPattern(id, request.url);
+      try {
+        return await runReplayInTab(id, request, options, replayId, startAt);
+      } finally {
+        releasePattern();
+      }
+    };
+    if (tabId !== undefined) {
+      try {
+        return await runInTab(tabId);
+      } catch (e) {
+        console.warn(`在标签页 ${tabId} 中重放失败，改用当前活动标签页:`, e);
+      }
+    }
+    const activeTabId = await findActiveWebTab();
+    if (activeTabId === undefined) {
+      throw new Error('没有可用于重放的网页标签页');
+    }
+    return runInTab(activeTabId);
+  }
+
+  // 统一的重放入口：按选项在目标页面、扩展后台或独立标签页中发送请求。
+  // 所在标签页已附加调试器时，由requestPaused按输入内容替换请求头和请求体；
+  // race用于竞争测试：gate在暂停后统一放行，startAt让页面在同一时刻发出
+  async function executeReplay(
+    rawRequest: string,
+    headersOverride: { name: string; value: string }[] | undefined,
+    tabId: number | undefined,
+    options: ReplayOptions,
+    race?: { gate?: ReleaseGate; startAt?: number }
+  ): Promise<ReplayResult> {
+    const sentAt = Date.now();
+    const { url, method, headers, postData } = parseRawRequest(rawRequest);
+    if (!url) {
+      return { success: false, error: '请求行缺少URL', sentAt, duration: 0, redirects: [], headersInjected: false };
+    }
+    const request: ReplayRequest = { url, method: method || 'GET', headers: headersOverride || headers, body: postData };
+    const replayId = `${sentAt}-${Math.random().toString(36).substring(2, 9)}`;
+    replayJobs.set(replayId, { request, injected: false, redirects: [], finished: false, gate: race?.gate });
+
+    let isolatedTabId: number | undefined;
+    try {
+      let result: FetchResult;
+      if (options.context === 'background') {
+        // 扩展后台发出的请求不属于任何标签页，无法通过调试器替换请求头
+        result = await executeReplayFetch(request, options);
+      } else if (options.context === 'isolated-tab') {
+        isolatedTabId = await openIsolatedTab(url, options.timeout, id => isolatedReplayTabs.add(id));
+        await chrome.debugger.attach({ tabId: isolatedTabId }, version);
+        await chrome.debugger.sendCommand({ tabId: isolatedTabId }, 'Fetch.enable', { patterns: [{ urlPattern: '*', requestStage: 'Request' }] });
+        await enableNetworkDomain({ tabId: isolatedTabId });
+        result = await runReplayInTab(isolatedTabId, request, options, replayId);
+      } else {
+        result = await replayInPage(tabId, request, options, replayId, race?.startAt);
+      }
+
+      const job = replayJobs.get(replayId)!;
+      // 经过调试器时等待loadingFinished事件，以便带上分阶段耗时
+      if (job.injected && !job.finished) {
+        await new Promise(resolve => setTimeout(resolve, REPLAY_TIMING_WAIT));
+      }
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          sentAt,
+          duration: result.duration,
+          timing: job.timing,
+          redirects: job.redirects,
+          headersInjected: job.injected,
+          startedAt: job.releasedAt ?? result.startedAt,
+          completedAt: result.completedAt
+        };
+      }
+
+      // 未经过调试器时只知道发生了重定向，记录为状态未知的一跳
+      const redirects = job.redirects.length > 0 || !result.redirected
+        ? job.redirects
+        : [{ url, status: 0, location: result.finalUrl }];
+      const response = result.opaqueRedirect && job.lastResponse
+        ? { ...job.lastResponse, body: '' }
+        : { status: result.statusCode || 0, statusText: result.statusText || '', headers: result.headers || [], body: result.body || '' };
+      return {
+        success: true,
+        statusCode: response.status,
+        statusText: response.statusText,
+        responseHeaders: response.headers,
+        rawResponse: buildRawResponse(response.status, response.statusText, response.headers, response.body),
+        sentAt,
+        duration: result.duration,
+        timing: job.timing,
+        finalUrl: result.opaqueRedirect ? url : result.finalUrl,
+        redirects,
+        headersInjected: job.injected,
+        startedAt: job.releasedAt ?? result.startedAt,
+        completedAt: result.completedAt
+      };
+    } catch (e) {
+      return {
+        success: false,
+        error: e instanceof Error ? e.message : String(e),
+        sentAt,
+        duration: Date.now() - sentAt,
+        redirects: [],
+        headersInjected: false
+      };
+    } finally {
+      replayJobs.delete(replayId);
+      for (const [networkId, id] of replayNetworkIds) {
+        if (id === replayId) replayNetworkIds.delete(networkId);
+      }
+      if (isolatedTabId !== undefined) {
+        await chrome.debugger.detach({ tabId: isolatedTabId }).catch(() => {});
+        await browser.tabs.remove(isolatedTabId).catch(() => {});
+        isolatedReplayTabs.delete(isolatedTabId);
+      }
+    }
+  }
+
+  // 测试器：按攻击类型生成请求，通过重放引擎按并发数和发送间隔发送；配置有误时抛出
+  async function startIntruderAttack(config: IntruderConfig, options: ReplayOptions) {
+    const { defaults } = parsePayloadPositions(config.rawRequest);
+    if (defaults.length === 0) {
+      throw new Error('请先用§标记载荷位置');
+    }
+    // 载荷先经过各载荷集的处理链，结果中显示实际发送的载荷
+    const payloadLists = await Promise.all(config.payloadSets.map(set =>
+      processPayloads(generatePayloads(set), set.processors || [])
+    ));
+    const total = countAttackRequests(config.attackType, defaults.length, payloadLists);
+    if (total === 0) {
+      throw new Error('没有可发送的载荷');
+    }
+    if (total > MAX_ATTACK_REQUESTS) {
+      throw new Error(`请求数 ${total} 超过上限 ${MAX_ATTACK_REQUESTS}`);
+    }
+    const grepMatch = compileGrepPattern(config.grepMatch);
+    const grepExtract = compileGrepPattern(config.grepExtract);
+
+    // 同一时间只运行一个攻击
+    if (intruderAttack?.status === 'running') {
+      intruderAttack.status = 'stopped';
+    }
+    const attack: IntruderAttackState = {
+      id: `intruder-${Date.now()}`,
+      status: 'running',
+      total,
+      startedAt: Date.now(),
+      results: []
+    };
+    intruderAttack = attack;
+    intruderDetails.clear();
+    broadcastIntruderUpdate();
+
+    let sentCount = 0;
+    runThrottled(
+      generateAttackRequests(config.rawRequest, config.attackType, payloadLists),
+      config.concurrency,
+      config.throttle,
+      () => attack.status !== 'running',
+      async request => {
+        const index = ++sentCount;
+        const result = await executeReplay(request.rawRequest, undefined, config.tabId, options);
+        if (intruderAttack !== attack) return;
+        const rawResponse = result.rawResponse || '';
+        attack.results.push({
+          index,
+          payloads: request.payloads,
+          position: request.position,
+          statusCode: result.statusCode,
+          length: rawResponse.length,
+          duration: result.timing?.total ?? result.duration,
+          error: result.success ? undefined : result.error,
+          grepMatched: !!grepMatch && grepMatch.test(rawResponse),
+          extracted: extractFromResponse(rawResponse, grepExtract)
+        });
+        intruderDetails.set(index, {
+          rawRequest: request.rawRequest,
+          rawResponse: result.success
+            ? rawResponse.substring(0, MAX_INTRUDER_RESPONSE_LENGTH)
+            : `请求失败: ${result.error || '未知错误'}`
+        });
+        scheduleIntruderBroadcast();
+      }
+    ).catch(e => console.error('测试器攻击异常结束:', e)).finally(() => {
+      if (attack.status === 'running') {
+        attack.status = 'finished';
+      }
+      if (intruderAttack === attack) {
+        broadcastIntruderUpdate();
+      }
+    });
+  }
+
+  // 竞争测试：在同一标签页中准备N个副本，已附加调试器时在requestPaused暂停并同时放行，
+  // 否则在页面中等到同一时刻发出（可先发HEAD请求建立keep-alive连接）
+  async function runRaceTest(config: RaceConfig, options: ReplayOptions): Promise<RaceRunResult> {
+    const copies = Math.min(MAX_RACE_COPIES, Math.max(2, config.copies));
+    const payloads = config.payloads.replace(/\r/g, '').split('\n').filter(line => line !== '');
+    let segments: string[] = [config.rawRequest];
+    try {
+      segments = parsePayloadPositions(config.rawRequest).segments;
+    } catch (e) {
+      return { success: false, error: e instanceof Error ? e.message : String(e), copies: [], groups: [] };
+    }
+    // 预热和追加Fetch模式都需要完整的URL（§标记处取原值）
+    let targetUrl: URL;
+    try {
+      targetUrl = new URL(parseRawRequest(config.rawRequest.split(PAYLOAD_MARKER).join('')).url);
+    } catch {
+      return { success: false, error: '请求行中的URL无效，需要包含协议和主机的完整地址', copies: [], groups: [] };
+    }
+
+    let tabId = config.tabId;
+    if (tabId === undefined || !(await browser.tabs.get(tabId).catch(() => null))) {
+      tabId = await findActiveWebTab();
+    }
+    if (tabId === undefined) {
+      return { success: false, error: '没有可用于发送的网页标签页', copies: [], groups: [] };
+    }
+
+    const mode = attachedTabs.has(tabId) ? 'gate' : 'page';
+    const pageOptions: ReplayOptions = { ...options, context: 'page' };
+    const gate = mode === 'gate' ? createReleaseGate(copies, RACE_GATE_TIMEOUT) : undefined;
+    if (mode === 'page' && config.warmUp) {
+      await runReplayInTab(tabId, { url: `${targetUrl.origin}/`, method: 'HEAD', headers: [] }, pageOptions)
+        .catch(e => console.warn('预热连接失败:', e));
+    }
+    const startAt = mode === 'page' ? Date.now() + RACE_PAGE_DELAY : undefined;
+
+    // 整轮测试期间保持目标源的Fetch模式，不论抓包设置如何，副本都会在requestPaused中暂停
+    const releasePattern = mode === 'gate' ? await holdReplayPattern(tabId, targetUrl.href) : undefined;
+    const results = await Promise.all(Array.from({ length: copies }, (_, i) => {
+      const payload = payloads.length > 0 ? payloads[i % payloads.length] : undefined;
+      // §标记处填入载荷，没有载荷时使用标记中的原值
+      const rawRequest = payload === undefined
+        ? config.rawRequest.split(PAYLOAD_MARKER).join('')
+        : segments.join(payload);
+      return executeReplay(rawRequest, undefined, tabId, pageOptions, { gate, startAt }).then(result => ({ result, payload }));
+    })).finally(() => releasePattern?.());
+
+    const releasedAt = gate?.releasedAt ?? startAt ?? Date.now();
+    const copyResults: Omit<RaceCopyResult, 'groupIndex'>[] = results.map(({ result, payload }, i) => {
+      const startedAt = result.startedAt ?? releasedAt;
+      return {
+        index: i + 1,
+        payload,
+        statusCode: result.statusCode,
+        length: result.rawResponse?.length || 0,
+        startOffset: startedAt - releasedAt,
+        endOffset: (result.completedAt ?? startedAt + result.duration) - releasedAt,
+        error: result.success ? undefined : result.error,
+        rawResponse: result.rawResponse?.substring(0, MAX_INTRUDER_RESPONSE_LENGTH)
+      };
+    });
+    return {
+      success: true,
+      mode,
+      releasedAt,
+      readyCount: gate ? Math.min(gate.arrivedCount, copies) : copies,
+      ...groupRaceResults(copyResults)
+    };
+  }
+
   // onEvent listener: Now updates in-memory store and broadcasts
-  chrome.debugger.onEvent.addListener(async (source, method, params?: any) => {
-    if (method !== 'Fetch.requestPaused' || !source.tabId) return;
+  chrome.debugger.onEvent.addListener(async (source: DebuggerSession, method, params?: any) => {
+    if (!source.tabId) return;
+    // 子目标的事件带有sessionId，命令也需要发往同一个session
+    const target = sessionTarget(source.tabId, source.sessionId);
 
-    const { requestId, request, responseStatusCode, responseHeaders, networkId, redirectResponse } = params;
+    if (method === 'Target.attachedToTarget') {
+      handleTargetAttached(source.tabId, params);
+      return;
+    }
+    if (method === 'Target.detachedFromTarget') {
+      childSessions.delete(params.sessionId);
+      return;
+    }
+    if (method.startsWith('Network.webSocket')) {
+      handleWebSocketEvent(target, method, params);
+      return;
+    }
+    if (method.startsWith('Network.')) {
+      trackReplayNetworkEvent(method, params);
+      handleEventStreamEvent(target, method, params);
+      handleNetworkEvent(method, params);
+      return;
+    }
+    if (method !== 'Fetch.requestPaused') return;
+
+    const { requestId, request, responseStatusCode, responseStatusText, responseHeaders, networkId, redirectResponse } = params;
     
     // 确保requestId有效
     if (!requestId) {
@@ -320,44 +1306,67 @@ export default defineBackground(() => {
     if (isWhitelisted) {
       console.log('Allowing whitelisted request:', request.url);
       try {
-        await chrome.debugger.sendCommand({ tabId: source.tabId }, 'Fetch.continueRequest', { requestId });
+        await chrome.debugger.sendCommand(target, 'Fetch.continueRequest', { requestId });
       } catch (e) {
         console.error('Failed to continue whitelisted request:', e);
       }
       return;
     }
 
-    const replayId = request.headers['X-Replay-Id'];
-    if (replayId && replayDataStore.has(replayId)) {
-        const replayData = replayDataStore.get(replayId)!;
-        
-        // **Fix**: Clear the timeout as soon as the replay is successfully intercepted.
-        clearTimeout(replayData.timeoutId);
-        replayDataStore.delete(replayId);
-
-        replayIdToOriginalIdMap.set(requestId, replayData.originalId);
-        pendingActions.add(replayData.originalId);
-
-        try {
-            await chrome.debugger.sendCommand(
-                { tabId: source.tabId },
-                'Fetch.continueRequest',
-                {
-                    requestId: requestId,
-                    headers: replayData.headers,
-                    postData: replayData.postData ? btoa(unescape(encodeURIComponent(replayData.postData))) : undefined
-                }
-            );
-        } catch(e) {
-            console.error('Failed to continue replay request:', e);
-            replayIdToOriginalIdMap.delete(requestId);
-            pendingActions.delete(replayData.originalId);
+    // 重放请求：按输入内容替换请求头（含fetch无法设置的Cookie、Origin、Referer、Host等）和请求体，不记录到请求列表
+    const replayId = request.headers[REPLAY_ID_HEADER] || request.headers[REPLAY_ID_HEADER.toLowerCase()];
+    const replayJob = replayId ? replayJobs.get(replayId) : undefined;
+    if (replayJob && !replayJob.injected) {
+        replayJob.injected = true;
+        if (networkId) replayNetworkIds.set(networkId, replayId);
+        const { headers: replayHeaders, body, method: replayMethod } = replayJob.request;
+        const release = async () => {
+            replayJob.releasedAt = Date.now();
+            try {
+                await chrome.debugger.sendCommand(target, 'Fetch.continueRequest', {
+                    requestId,
+                    method: replayMethod,
+                    headers: replayHeaders.filter(h => !['content-length', REPLAY_ID_HEADER.toLowerCase()].includes(h.name.toLowerCase())),
+                    postData: body ? btoa(unescape(encodeURIComponent(body))) : undefined
+                });
+            } catch (e) {
+                console.error('替换重放请求头失败:', e);
+                replayJob.injected = false;
+                await chrome.debugger.sendCommand(target, 'Fetch.continueRequest', { requestId }).catch(() => {});
+            }
+        };
+        if (replayJob.gate) {
+            replayJob.gate.arrive(release);
+        } else {
+            await release();
         }
         return;
     }
+    // 重放请求的重定向和响应阶段、独立重放标签页中的其他请求直接放行
+    if ((networkId && replayNetworkIds.has(networkId)) || (source.tabId && isolatedReplayTabs.has(source.tabId))) {
+        await chrome.debugger.sendCommand(target, 'Fetch.continueRequest', { requestId }).catch(() => {});
+        return;
+    }
+    // 重放期间追加的模式额外暂停的页面请求，不在抓包设置范围内的直接放行
+    if (!source.sessionId && replayFetchPatterns.has(source.tabId) &&
+        responseStatusCode === undefined && params.responseErrorReason === undefined &&
+        !matchesCapturePatterns(captureSettings, params.resourceType, request.url)) {
+        await chrome.debugger.sendCommand(target, 'Fetch.continueRequest', { requestId }).catch(() => {});
+        return;
+    }
+
+    // 范围外的请求直接放行，不进入requestsStore，也不做正则处理
+    // （已记录的请求被远程映射到范围外地址时，其响应阶段仍需处理）
+    if (!isUrlInScope(request.url, scopeSettings) && !(networkId && requestsStore.some(r => r.id === networkId))) {
+      try {
+        await chrome.debugger.sendCommand(target, 'Fetch.continueRequest', { requestId });
+      } catch (e) {
+        console.error('Failed to continue out-of-scope request:', e);
+      }
+      return;
+    }
 
-    const originalRequestIdForUpdate = replayIdToOriginalIdMap.get(requestId);
-    const uniqueId = originalRequestIdForUpdate || networkId || `${source.tabId}-${requestId}`;
+    const uniqueId = networkId || `${source.tabId}-${requestId}`;
     
     const existingRequestIndex = requestsStore.findIndex(r => r.id === uniqueId);
 
@@ -383,95 +1392,221 @@ export default defineBackground(() => {
             // We have the headers, now get the body.
             // We call this and immediately continue the request. We don't wait for the body to be read.
             try {
-                const response = await chrome.debugger.sendCommand(
-                    { tabId: source.tabId }, 'Fetch.getResponseBody', { requestId }
-                ) as { body: string; base64Encoded: boolean };
-
-                let responseBodyText = '';
-                if (response.body) {
-                    const charset = getCharset(responseHeaders);
-                    if (response.base64Encoded) {
-                      const binaryString = atob(response.body);
-                      const bytes = new Uint8Array(binaryString.length);
-                      for (let i = 0; i < binaryString.length; i++) {
-                        bytes[i] = binaryString.charCodeAt(i);
-                      }
-                      responseBodyText = new TextDecoder(charset).decode(bytes);
-                    } else {
-                      responseBodyText = new TextDecoder(charset).decode(new TextEncoder().encode(response.body));
+                // 流式响应（SSE、NDJSON等）在结束前无法读取响应体，直接放行，数据通过Network域接收
+                const contentType = responseHeaders.find((h: any) => h.name.toLowerCase() === 'content-type')?.value || '';
+                const response = isStreamingMimeType(contentType)
+                    ? null
+                    : await getResponseBodyWithTimeout(target, requestId, RESPONSE_BODY_TIMEOUT);
+
+                if (!response) {
+                    const processedResponseHeaders = await processResponseHeaders(responseHeaders, request.url, requestId);
+                    let rawResponse = `HTTP/1.1 ${responseStatusCode}${responseStatusText ? ` ${responseStatusText}` : ''}\r\n`;
+                    processedResponseHeaders.forEach((h: any) => rawResponse += `${h.name}: ${h.value}\r\n`);
+                    rawResponse += '\r\n[流式响应，数据见事件列表]';
+
+                    requestsStore[existingRequestIndex].rawResponse = rawResponse;
+                    requestsStore[existingRequestIndex].responseHeaders = processedResponseHeaders.map((h: any) => ({ name: h.name, value: h.value }));
+                    requestsStore[existingRequestIndex].mimeType = contentType.split(';')[0].trim() || undefined;
+                    requestsStore[existingRequestIndex].eventStream = createEventStreamInfo(contentType, 'stream');
+                    requestsStore[existingRequestIndex].status = 'finished';
+                } else {
+                    // 二进制响应保留原始字节（base64），原始响应文本中只放占位内容，避免解码为乱码
+                    const bodyBytes = response.base64Encoded
+                        ? base64ToBytes(response.body || '')
+                        : new TextEncoder().encode(response.body || '');
+                    const mimeType = detectMimeType(responseHeaders, bodyBytes);
+                    const isBinary = bodyBytes.length > 0 && !isTextMimeType(mimeType);
+
+                    let responseBodyText = '';
+                    if (isBinary) {
+                        responseBodyText = binaryBodyPlaceholder(mimeType, bodyBytes.length);
+                    } else if (response.body) {
+                        responseBodyText = new TextDecoder(getCharset(responseHeaders)).decode(bodyBytes);
                     }
-                }
 
-                // 应用正则过滤到响应头
-                const processedResponseHeaders = await processResponseHeaders(responseHeaders, request.url, requestId);
+                    // 匹配替换规则改写页面实际收到的响应，响应体已解码，需去掉与原始编码相关的头部
+                    // （二进制响应体不参与文本替换）
+                    const replacedResponse = applyResponseRules(
+                        request.url, { headers: responseHeaders, body: responseBodyText }, matchReplaceRules
+                    );
+                    const bodyModified = replacedResponse.bodyModified && !isBinary;
+                    if (replacedResponse.headersModified || bodyModified) {
+                        trafficRuleOverrides.set(uniqueId, {
+                            command: 'Fetch.fulfillRequest',
+                            params: {
+                                responseCode: responseStatusCode,
+                                responsePhrase: responseStatusText || undefined,
+                                responseHeaders: replacedResponse.headers.filter(h =>
+                                    !['content-length', 'content-encoding'].includes(h.name.toLowerCase())
+                                ),
+                                body: bodyModified
+                                    ? btoa(unescape(encodeURIComponent(replacedResponse.body)))
+                                    : response.base64Encoded ? response.body : btoa(unescape(encodeURIComponent(response.body)))
+                            }
+                        });
+                    }
+
+                    // 应用正则过滤到响应头
+                    const processedResponseHeaders = await processResponseHeaders(replacedResponse.headers, request.url, requestId);
                 
-                // 应用正则过滤到响应体
-                const processedResponseBody = await processResponseBody(responseBodyText, request.url, requestId);
+                    // 应用正则过滤到响应体
+                    const processedResponseBody = isBinary
+                        ? responseBodyText
+                        : await processResponseBody(replacedResponse.body, request.url, requestId);
                 
-                let rawResponse = `HTTP/1.1 ${responseStatusCode}\r\n`;
-                processedResponseHeaders.forEach((h: any) => rawResponse += `${h.name}: ${h.value}\r\n`);
-                rawResponse += `\r\n${processedResponseBody}`;
+                    let rawResponse = `HTTP/1.1 ${responseStatusCode}${responseStatusText ? ` ${responseStatusText}` : ''}\r\n`;
+                    processedResponseHeaders.forEach((h: any) => rawResponse += `${h.name}: ${h.value}\r\n`);
+                    rawResponse += `\r\n${processedResponseBody}`;
 
-                requestsStore[existingRequestIndex].rawResponse = rawResponse;
-                requestsStore[existingRequestIndex].status = 'finished';
-                requestsStore[existingRequestIndex].responseHeaders = processedResponseHeaders.map((h: any) => ({ name: h.name, value: h.value }));
+                    requestsStore[existingRequestIndex].rawResponse = rawResponse;
+                    requestsStore[existingRequestIndex].responseHeaders = processedResponseHeaders.map((h: any) => ({ name: h.name, value: h.value }));
+                    requestsStore[existingRequestIndex].mimeType = mimeType;
+                    requestsStore[existingRequestIndex].responseBodyBase64 = isBinary
+                        ? (response.base64Encoded ? response.body : bytesToBase64(bodyBytes))
+                        : undefined;
+
+                    // 拦截响应模式下暂停响应，等待UI编辑后通过Fetch.fulfillRequest放行
+                    if (mode === 'intercept' && interceptResponses &&
+                        shouldInterceptRequest(request, interceptRuleSettings)) {
+                        requestsStore[existingRequestIndex].status = 'paused';
+                        requestsStore[existingRequestIndex].pausedStage = 'response';
+                        // 编辑后放行时以正则处理前的响应为准
+                        requestsStore[existingRequestIndex].unprocessedResponse = {
+                            headers: replacedResponse.headers,
+                            body: replacedResponse.body
+                        };
+                        requestsStore[existingRequestIndex].requestId = requestId;
+                    } else {
+                        requestsStore[existingRequestIndex].status = 'finished';
+                    }
+                }
             } catch (e: any) {
                 requestsStore[existingRequestIndex].rawResponse = `Error getting response body: ${e.message}`;
                 requestsStore[existingRequestIndex].status = 'finished';
             } finally {
                 pendingActions.delete(uniqueId);
-                replayIdToOriginalIdMap.delete(requestId);
                 broadcastRequestsUpdate();
             }
 
+            // 响应已暂停，由resume-response放行
+            if (requestsStore[existingRequestIndex].status === 'paused') {
+                return;
+            }
+
             // 使用try-catch包裹，防止继续请求失败
             try {
-                await chrome.debugger.sendCommand({ tabId: source.tabId }, 'Fetch.continueRequest', { requestId });
+                await continueWithOverrides(target, uniqueId, requestId);
             } catch (e) {
                 console.error(`Failed to continue response request ${requestId}:`, e);
             }
+        } else {
+            // 请求记录已从内存中裁剪，直接放行，避免页面请求一直挂起
+            await continueWithOverrides(target, uniqueId, requestId)
+                .catch(e => console.error(`Failed to continue untracked response ${requestId}:`, e));
         }
-    } else { // Stage 1: Initial request (not a replay)
-        // This part should not be triggered by our replay requests because of the early return
+    } else { // Stage 1: Initial request
         if (existingRequestIndex !== -1) {
             // 如果请求已存在，更新请求ID以确保后续操作使用最新的ID
             requestsStore[existingRequestIndex].requestId = requestId;
             return;
         }
         
+        // 匹配替换规则改写实际发出的请求，记录为forwardedRequest供UI对比
+        const replacedRequest = applyRequestRules(
+          {
+            url: request.url,
+            headers: Object.entries(request.headers).map(([name, value]) => ({ name, value: String(value) })),
+            postData: request.postData
+          },
+          matchReplaceRules
+        );
+        // 远程映射规则改写请求目标，原始URL保留在request.url中
+        const mappedRequest = applyMapRemoteRules(replacedRequest.url, replacedRequest.headers, mapRemoteRules);
+        const forwardedRequest = replacedRequest.modified || mappedRequest.rule
+          ? { method: request.method, url: mappedRequest.url, headers: mappedRequest.headers, postData: replacedRequest.postData }
+          : undefined;
+        if (forwardedRequest) {
+          trafficRuleOverrides.set(uniqueId, {
+            command: 'Fetch.continueRequest',
+            params: {
+              url: forwardedRequest.url,
+              headers: forwardedRequest.headers,
+              postData: forwardedRequest.postData !== undefined
+                ? btoa(unescape(encodeURIComponent(forwardedRequest.postData)))
+                : undefined
+            }
+          });
+        }
+
         // 应用正则过滤到URL
-        const processedUrl = await processUrl(request.url, requestId);
+        const processedUrl = await processUrl(mappedRequest.url, requestId);
         
         let rawRequest = `${request.method} ${processedUrl} HTTP/1.1\r\n`;
         const requestHeaders: { name: string; value: string }[] = [];
         
         // 应用正则过滤到请求头
-        for (const [key, value] of Object.entries(request.headers)) {
-          const vStr = String(value);
-          const processedValue = await processRequestHeaders([{ name: key, value: vStr }], request.url, requestId);
+        for (const header of mappedRequest.headers) {
+          const processedValue = await processRequestHeaders([header], request.url, requestId);
           const processedHeader = processedValue[0];
           rawRequest += `${processedHeader.name}: ${processedHeader.value}\r\n`;
           requestHeaders.push(processedHeader);
         }
         
         // 应用正则过滤到请求体
-        let processedPostData = request.postData;
-        if (request.postData) {
-          processedPostData = await processRequestBody(request.postData, request.url, requestId);
+        let processedPostData = replacedRequest.postData;
+        if (replacedRequest.postData) {
+          processedPostData = await processRequestBody(replacedRequest.postData, request.url, requestId);
           rawRequest += `\r\n${processedPostData}`;
         }
-        const requestStatus = mode === 'proxy' ? 'finished' : 'paused';
+        // 命中本地映射规则时直接返回本地响应，不发出网络请求，也不暂停
+        const mapLocalRule = findMapLocalRule(request, mapLocalRules);
+        if (mapLocalRule) {
+          trafficRuleOverrides.delete(uniqueId);
+          const mockedRequest = {
+            id: uniqueId, tabId: source.tabId, requestId: requestId, request: request,
+            sessionId: source.sessionId, targetOrigin: source.sessionId ? childSessions.get(source.sessionId) : undefined,
+            rawRequest: rawRequest, rawResponse: buildMockRawResponse(mapLocalRule),
+            status: 'finished', isRedirect: !!redirectResponse, timestamp: Date.now(),
+            requestHeaders: requestHeaders,
+            responseHeaders: parseHeaderLines(mapLocalRule.headers),
+            mapLocalRule: mapLocalRule.name,
+            // 本地文件作为二进制响应体保存，供十六进制视图和预览使用
+            responseBodyBase64: mapLocalRule.bodyBase64 ? mapLocalRule.body : undefined,
+            mimeType: mapLocalRule.bodyBase64
+              ? detectMimeType(parseHeaderLines(mapLocalRule.headers), base64ToBytes(mapLocalRule.body))
+              : undefined,
+          };
+          requestsStore.push(mockedRequest);
+          broadcastRequestsUpdate();
+          try {
+            await fulfillWithMapLocalRule(target, requestId, mapLocalRule);
+          } catch (e) {
+            console.error(`Failed to fulfill mapped request ${requestId}:`, e);
+            mockedRequest.rawResponse = `本地响应失败: ${e instanceof Error ? e.message : JSON.stringify(e)}`;
+            broadcastRequestsUpdate();
+          }
+          return;
+        }
+
+        // 拦截模式下只暂停命中拦截规则的请求，其余自动放行
+        const requestStatus = mode === 'intercept' && shouldInterceptRequest(request, interceptRuleSettings)
+          ? 'paused'
+          : 'finished';
         const newRequest = {
           id: uniqueId, tabId: source.tabId, requestId: requestId, request: request,
+          sessionId: source.sessionId, targetOrigin: source.sessionId ? childSessions.get(source.sessionId) : undefined,
           rawRequest: rawRequest, status: requestStatus, isRedirect: !!redirectResponse,
-          requestHeaders: requestHeaders,
+          timestamp: Date.now(), requestHeaders: requestHeaders,
+          pausedStage: requestStatus === 'paused' ? 'request' : undefined,
+          forwardedRequest,
+          mappedUrl: mappedRequest.rule ? mappedRequest.url : undefined,
         };
         requestsStore.push(newRequest);
         broadcastRequestsUpdate();
-        if (mode === 'proxy') {
+        if (requestStatus === 'finished') {
           // 使用try-catch包裹，防止继续请求失败
           try {
-              await chrome.debugger.sendCommand({ tabId: source.tabId }, 'Fetch.continueRequest', { requestId });
+              await continueWithOverrides(target, uniqueId, requestId);
           } catch (e) {
               console.error(`Failed to continue proxy request ${requestId}:`, e);
               // 更新请求状态
@@ -491,14 +1626,17 @@ export default defineBackground(() => {
     if (area === 'local') {
       if (changes.networkInterceptorEnabled) {
         const { newValue } = changes.networkInterceptorEnabled;
-        toggleAllTabs(!!newValue);
+        setCaptureEnabled(!!newValue);
         
         // 关闭代理时，将所有未放行的请求状态改为已放行
         if (!newValue) {
+          trafficRuleOverrides.clear();
           const pausedRequests = requestsStore.filter(req => req.status === 'paused');
           if (pausedRequests.length > 0) {
             pausedRequests.forEach(req => {
               req.status = 'finished';
+              req.pausedStage = undefined;
+              req.unprocessedResponse = undefined;
               req.rawResponse = '代理已关闭，请求自动放行';
             });
             broadcastRequestsUpdate();
@@ -509,6 +1647,38 @@ export default defineBackground(() => {
         mode = changes.networkInterceptorMode.newValue;
         updateBadge(isEnabled); // 更新徽章颜色
       }
+      if (changes.networkInterceptorInterceptResponses) {
+        interceptResponses = !!changes.networkInterceptorInterceptResponses.newValue;
+      }
+      if (changes.captureSettings) {
+        reapplyCaptureSettings();
+      }
+      if (changes.tabTargetSettings) {
+        tabTargetSettings = { ...DEFAULT_TAB_TARGET_SETTINGS, ...changes.tabTargetSettings.newValue };
+        syncAttachedTabs();
+        recordTabTargetUrls();
+      }
+      if (changes.scopeSettings) {
+        scopeSettings = changes.scopeSettings.newValue || DEFAULT_SCOPE_SETTINGS;
+      }
+      if (changes.interceptRuleSettings) {
+        interceptRuleSettings = changes.interceptRuleSettings.newValue || DEFAULT_INTERCEPT_RULE_SETTINGS;
+      }
+      if (changes.matchReplaceRules) {
+        matchReplaceRules = changes.matchReplaceRules.newValue || [];
+      }
+      if (changes.mapLocalRules) {
+        mapLocalRules = changes.mapLocalRules.newValue || [];
+      }
+      if (changes.mapRemoteRules) {
+        mapRemoteRules = changes.mapRemoteRules.newValue || [];
+      }
+      if (changes.historyRetentionSettings) {
+        historyRetentionSettings = changes.historyRetentionSettings.newValue || DEFAULT_HISTORY_RETENTION_SETTINGS;
+        lastRetentionAt = Date.now();
+        historyService.applyRetention(historyRetentionSettings)
+          .catch(e => console.error('执行历史保留策略失败:', e));
+      }
       if (changes.aiApiEndpoint) {
         try {
           const url = new URL(changes.aiApiEndpoint.newValue);
@@ -533,20 +1703,40 @@ export default defineBackground(() => {
     }
   });
 
-   browser.tabs.onCreated.addListener(async (tab) => {
-    if (isEnabled && tab.id) {
+  browser.tabs.onCreated.addListener(async (tab) => {
+    if (isEnabled && tab.id && shouldCaptureTab(tab)) {
       await attachDebugger(tab.id);
     }
   });
 
+  // 标签页导航后重新判断是否属于抓包目标（主机匹配模式下离开目标主机时分离）
   browser.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
-    if (isEnabled && changeInfo.url && tab.url) {
-      if (!attachedTabs.has(tabId)) {
+    // 记录目标标签页的最新URL，浏览器重启后据此重新对应
+    if (changeInfo.url && tabTargetSettings.tabIds.includes(tabId) &&
+        (tabTargetSettings.mode === 'current' || tabTargetSettings.mode === 'selected')) {
+      tabTargetUrls = { ...tabTargetUrls, [tabId]: changeInfo.url };
+      tabTargetService.saveTabUrls(tabTargetUrls).catch(() => { /* 已在服务中记录 */ });
+    }
+    if (isEnabled && changeInfo.url && tab.url && !isolatedReplayTabs.has(tabId)) {
+      if (shouldCaptureTab(tab)) {
         await attachDebugger(tabId);
+      } else {
+        await detachDebugger(tabId);
       }
     }
   });
 
+  // 标签页移到其他窗口时，窗口模式需要重新判断
+  browser.tabs.onAttached.addListener(async (tabId) => {
+    if (!isEnabled || tabTargetSettings.mode !== 'window' || isolatedReplayTabs.has(tabId)) return;
+    const tab = await browser.tabs.get(tabId);
+    if (shouldCaptureTab(tab)) {
+      await attachDebugger(tabId);
+    } else {
+      await detachDebugger(tabId);
+    }
+  });
+
   browser.tabs.onRemoved.addListener((tabId) => {
     if (attachedTabs.has(tabId)) {
       detachDebugger(tabId);
@@ -556,11 +1746,18 @@ export default defineBackground(() => {
   chrome.debugger.onDetach.addListener((source: chrome.debugger.Debuggee) => {
     if (source.tabId && attachedTabs.has(source.tabId)) {
       attachedTabs.delete(source.tabId);
+      removeChildSessions(source.tabId);
     }
   });
 
   // 监听插件关闭事件
   browser.runtime.onSuspend.addListener(async () => {
+    // 挂起前写入尚未保存的请求，重启后可从历史库恢复
+    if (persistTimer) {
+      clearTimeout(persistTimer);
+      persistTimer = null;
+    }
+    historyService.putRequests(requestsStore).catch(() => { /* 静默处理 */ });
     requestsStore = [];
     
     // 清除我们设置的代理
@@ -573,7 +1770,7 @@ export default defineBackground(() => {
 
   // onMessage listener: Handles UI commands
   browser.runtime.onMessage.addListener(async (message: any) => {
-    const { action, requestData, rawRequest, headers } = message;
+    const { action, requestData, rawRequest, rawResponse, headers } = message;
 
     if (action === 'get-initial-requests') {
         broadcastRequestsUpdate();
@@ -590,19 +1787,34 @@ export default defineBackground(() => {
                 throw new Error('请求已失效或超时');
             }
             
+            // 方法、URL、请求头和请求体中用户改动的部分以编辑器内容为准
+            const forwardedRequest = buildForwardedRequest(requestsStore[requestIndex], rawRequest || '', headers);
+
+            // 编辑器内容已包含匹配替换的结果
+            trafficRuleOverrides.delete(requestData.id);
+
             // 尝试放行请求
             try {
                 await chrome.debugger.sendCommand(
-                    { tabId: requestData.tabId }, 'Fetch.continueRequest',
-                    { 
+                    entryTarget(requestData), 'Fetch.continueRequest',
+                    {
                         requestId: requestData.requestId,
-                        headers: headers || parseRawRequest(rawRequest).headers
+                        method: forwardedRequest.method,
+                        url: forwardedRequest.url,
+                        headers: forwardedRequest.headers,
+                        postData: forwardedRequest.postData !== undefined
+                            ? btoa(unescape(encodeURIComponent(forwardedRequest.postData)))
+                            : undefined
                     }
                 );
-                
-                // 放行成功，更新请求状态
+
+                // 放行成功，更新请求状态并记录实际发出的请求，供UI对比
                 if (requestIndex !== -1) {
                     requestsStore[requestIndex].status = 'finished';
+                    requestsStore[requestIndex].pausedStage = undefined;
+                    requestsStore[requestIndex].forwardedRequest = isSameRequest(forwardedRequest, snapshotOf(requestsStore[requestIndex].request))
+                        ? undefined
+                        : forwardedRequest;
                     broadcastRequestsUpdate();
                 }
             } catch (e) {
@@ -638,214 +1850,270 @@ export default defineBackground(() => {
         } finally {
             pendingActions.delete(requestData.id);
         }
-    } else if (action === 'replay-request' && requestData) {
+    } else if (action === 'resume-response' && requestData) {
         if (pendingActions.has(requestData.id)) return true;
-        
-        // 将请求标记为处理中
         pendingActions.add(requestData.id);
-        
-        const replayId = `${Date.now()}-${Math.random()}`;
-        const { url, method, postData } = parseRawRequest(rawRequest);
-        
-        // 获取请求头
-        const requestHeaders = headers || [];
-        
-        // 创建一个新的请求对象，用于显示在UI中
-        const replayRequestId = `replay-${Date.now()}`;
-        const replayRequest = {
-            id: replayRequestId,
-            tabId: requestData.tabId,
-            requestId: `replay-${requestData.requestId}`,
-            request: {
-                url,
-                method,
-                headers: headersArrayToObject(requestHeaders)
-            },
-            rawRequest: rawRequest,
-            status: 'finished' as const, // 直接标记为已完成，而不是暂停
-            isRedirect: false,
-            requestHeaders: requestHeaders
-        };
-        
-        // 将重放请求添加到请求列表
-        requestsStore.push(replayRequest);
-        
-        const cleanupReplayState = (updateUI = false, response?: string) => {
-            const data = replayDataStore.get(replayId);
-            if (data) {
-                clearTimeout(data.timeoutId);
-                replayDataStore.delete(replayId);
-                
-                // 如果需要更新UI，则更新重放请求的响应
-                if (updateUI) {
-                    const requestIndex = requestsStore.findIndex(r => r.id === replayRequestId);
-                    if (requestIndex !== -1) {
-                        requestsStore[requestIndex].rawResponse = response || '重放请求超时或失败';
-                        broadcastRequestsUpdate();
+
+        const requestIndex = requestsStore.findIndex(r => r.id === requestData.id);
+
+        try {
+            if (requestIndex === -1 || requestsStore[requestIndex].pausedStage !== 'response') {
+                throw new Error('响应已失效或超时');
+            }
+
+            const entry = requestsStore[requestIndex];
+            if (rawResponse === undefined || rawResponse === entry.rawResponse) {
+                // 未修改响应时原样放行（仅应用匹配替换），避免重新编码响应体
+                await continueWithOverrides(entryTarget(entry), entry.id, entry.requestId);
+            } else {
+                trafficRuleOverrides.delete(entry.id);
+                const parsedResponse = buildFulfilledResponse(entry, rawResponse);
+                // 响应体已由getResponseBody解码，需去掉与原始编码相关的头部
+                const responseHeaders = parsedResponse.headers.filter(h =>
+                    !['content-length', 'content-encoding'].includes(h.name.toLowerCase())
+                );
+                // 二进制响应体未被编辑（仍为占位内容）时使用原始字节
+                const keepBinaryBody = entry.responseBodyBase64 &&
+                    parsedResponse.body.trim() === binaryBodyPlaceholder(entry.mimeType, base64ToBytes(entry.responseBodyBase64).length);
+                await chrome.debugger.sendCommand(
+                    entryTarget(entry), 'Fetch.fulfillRequest',
+                    {
+                        requestId: entry.requestId,
+                        responseCode: parsedResponse.statusCode,
+                        responsePhrase: parsedResponse.statusText || undefined,
+                        responseHeaders,
+                        body: keepBinaryBody
+                            ? entry.responseBodyBase64
+                            : btoa(unescape(encodeURIComponent(parsedResponse.body)))
                     }
+                );
+                if (!keepBinaryBody) {
+                    entry.responseBodyBase64 = undefined;
                 }
+                entry.rawResponse = rawResponse;
+                entry.responseHeaders = parseRawResponse(rawResponse).headers;
             }
-            
-            // 清除pendingActions
-            pendingActions.delete(requestData.id);
-        };
 
-        // 增加超时时间到30秒，给请求更多处理时间
-        const timeoutId = setTimeout(() => {
-            console.warn(`Replay ${replayId} timed out and was cleaned up.`);
-            cleanupReplayState(true, '重放请求超时'); // 更新UI状态
-        }, 30000);
-
-        replayDataStore.set(replayId, {
-            originalId: requestData.id,
-            replayId: replayRequestId,
-            headers: requestHeaders,
-            postData: postData,
-            timeoutId: timeoutId
-        });
+            entry.status = 'finished';
+            entry.pausedStage = undefined;
+            entry.unprocessedResponse = undefined;
+            broadcastRequestsUpdate();
+        } catch (e) {
+            const errorStr = e instanceof Error ? e.message : JSON.stringify(e);
+            console.error(`Failed to fulfill response ${requestData.id}:`, errorStr);
 
-        // 使用增强的fetch函数来执行重放
-        const executeFetch = (fetchUrl: string, fetchMethod: string, fetchReplayId: string, fetchPostData?: string, fetchHeaders?: Array<{name: string, value: string}>) => {
-            // 构建fetch选项
-            const fetchOptions: RequestInit = {
-                method: fetchMethod,
-                headers: {
-                    'X-Replay-Id': fetchReplayId,
-                    'Cache-Control': 'no-cache, no-store, must-revalidate',
-                    'Pragma': 'no-cache',
-                    'Expires': '0'
+            if (requestIndex !== -1) {
+                requestsStore[requestIndex].status = 'finished';
+                requestsStore[requestIndex].pausedStage = undefined;
+                requestsStore[requestIndex].rawResponse = errorStr.includes('Invalid InterceptionId') || errorStr.includes('-32602')
+                    ? '响应已自动完成或超时'
+                    : `响应放行失败: ${errorStr}`;
+                broadcastRequestsUpdate();
+            }
+        } finally {
+            pendingActions.delete(requestData.id);
+        }
+    } else if (action === 'replay') {
+        return executeReplay(rawRequest || '', headers, message.tabId, { ...DEFAULT_REPLAY_OPTIONS, ...message.options });
+    } else if (action === 'replay-request' && requestData) {
+        // 重放选中的请求，结果作为新请求加入列表，不修改原请求的响应
+        if (pendingActions.has(requestData.id)) return true;
+        pendingActions.add(requestData.id);
+
+        try {
+            const result = await executeReplay(rawRequest, headers, requestData.tabId, { ...DEFAULT_REPLAY_OPTIONS, ...message.options });
+            const parsed = parseRawRequest(rawRequest);
+            const requestHeaders = headers || parsed.headers;
+            const replayEntry = {
+                id: `replay-${crypto.randomUUID()}`,
+                tabId: requestData.tabId,
+                requestId: `replay-${requestData.requestId}`,
+                request: {
+                    url: parsed.url,
+                    method: parsed.method,
+                    headers: headersArrayToObject(requestHeaders)
                 },
-                credentials: 'include' // 包含cookie
+                rawRequest,
+                rawResponse: result.success ? result.rawResponse : `重放请求失败: ${result.error || '未知错误'}`,
+                responseHeaders: result.responseHeaders,
+                status: 'finished' as const,
+                isRedirect: false,
+                timestamp: result.sentAt,
+                requestHeaders,
+                replayOf: requestData.id,
+                network: result.timing ? { timing: result.timing } : undefined
             };
-            
-            // 添加自定义请求头
-            if (fetchHeaders && fetchHeaders.length > 0) {
-                const headerObj = fetchOptions.headers as Record<string, string>;
-                fetchHeaders.forEach(h => {
-                    // 跳过某些特殊的头部
-                    if (!['content-length', 'host'].includes(h.name.toLowerCase())) {
-                        headerObj[h.name] = h.value;
-                    }
-                });
-            }
-            
-            // 添加请求体
-            if (fetchPostData && ['POST', 'PUT', 'PATCH'].includes(fetchMethod.toUpperCase())) {
-                fetchOptions.body = fetchPostData;
-            }
-            
-            // 执行fetch请求
-            fetch(fetchUrl, fetchOptions)
-                .then(async response => {
-                    try {
-                        // 获取响应文本
-                        const responseText = await response.text();
-                        
-                        // 构建响应头字符串
-                        let responseHeadersText = `HTTP/1.1 ${response.status} ${response.statusText}\r\n`;
-                        response.headers.forEach((value, name) => {
-                            responseHeadersText += `${name}: ${value}\r\n`;
-                        });
-                        responseHeadersText += '\r\n';
-                        
-                        // 完整响应
-                        const fullResponse = responseHeadersText + responseText;
-                        
-                        // 发送消息到background脚本
-                        chrome.runtime.sendMessage({
-                            action: 'replay-fetch-success',
-                            replayId: fetchReplayId,
-                            response: fullResponse
-                        }).catch(() => {});
-                    } catch (e) {
-                        chrome.runtime.sendMessage({
-                            action: 'replay-fetch-failed',
-                            replayId: fetchReplayId,
-                            error: e instanceof Error ? e.message : String(e)
-                        }).catch(() => {});
-                    }
-                })
-                .catch(e => {
-                    console.error(`Injected replay fetch for ${fetchReplayId} failed:`, e);
-                    // 在页面上下文中无法直接访问background脚本，
-                    // 所以我们发送一个消息通知background脚本处理失败
-                    chrome.runtime.sendMessage({
-                        action: 'replay-fetch-failed',
-                        replayId: fetchReplayId,
-                        error: e.message
-                    }).catch(() => {});
-                });
-        };
+            requestsStore.push(replayEntry);
+            broadcastRequestsUpdate();
+            return { ...result, entryId: replayEntry.id };
+        } finally {
+            pendingActions.delete(requestData.id);
+        }
+    } else if (action === 'drop-request' && requestData) {
+        if (pendingActions.has(requestData.id)) return true;
+        pendingActions.add(requestData.id);
 
-        const injection = {
-            func: executeFetch,
-            args: [url, method, replayId, postData, requestHeaders]
-        };
+        try {
+            const entry = requestsStore.find(r => r.id === requestData.id);
+            if (entry && entry.status === 'paused') {
+                await dropPausedRequest(entry, message.errorReason || 'Aborted');
+                broadcastRequestsUpdate();
+            }
+        } finally {
+            pendingActions.delete(requestData.id);
+        }
+    } else if (action === 'forward-all' || action === 'drop-all') {
+        // 批量处理所有暂停中的请求
+        const pausedEntries = requestsStore.filter(r => r.status === 'paused' && !pendingActions.has(r.id));
+        pausedEntries.forEach(entry => pendingActions.add(entry.id));
 
-        // 立即广播更新，显示重放请求
+        try {
+            await Promise.all(pausedEntries.map(entry =>
+                action === 'forward-all'
+                    ? continuePausedRequest(entry)
+                    : dropPausedRequest(entry, message.errorReason || 'Aborted')
+            ));
+        } finally {
+            pausedEntries.forEach(entry => pendingActions.delete(entry.id));
+            broadcastRequestsUpdate();
+        }
+    } else if (action === 'clear-requests') {
+        requestsStore = [];
+        try {
+            await historyService.clear();
+        } catch (e) {
+            console.error('清空请求历史失败:', e);
+        }
+        browser.runtime.sendMessage({ action: 'history-cleared' }).catch(() => { /* Ignore errors */ });
         broadcastRequestsUpdate();
-
-        (async () => {
+    } else if (action === 'get-attached-tabs') {
+        return { tabIds: Array.from(attachedTabs.keys()), passiveTabIds: Array.from(passiveTabs) };
+    } else if (action === 'intruder-start') {
+        try {
+            await startIntruderAttack(message.config, { ...DEFAULT_REPLAY_OPTIONS, ...message.options });
+            return { success: true };
+        } catch (e) {
+            return { success: false, error: e instanceof Error ? e.message : String(e) };
+        }
+    } else if (action === 'race-start') {
+        try {
+            return await runRaceTest({ ...message.config }, { ...DEFAULT_REPLAY_OPTIONS, ...message.options });
+        } catch (e) {
+            return { success: false, error: e instanceof Error ? e.message : String(e), copies: [], groups: [] };
+        }
+    } else if (action === 'intruder-stop') {
+        if (intruderAttack?.status === 'running') {
+            intruderAttack.status = 'stopped';
+            broadcastIntruderUpdate();
+        }
+    } else if (action === 'get-intruder-attack') {
+        broadcastIntruderUpdate();
+    } else if (action === 'intruder-get-result') {
+        return intruderDetails.get(message.index);
+    } else if (action === 'get-ws-repeater-sessions') {
+        broadcastWebSocketRepeaterUpdate();
+    } else if (action === 'ws-repeater-create') {
+        // 基于捕获的连接创建重放会话，new模式在目标页面中新建连接
+        const connection = requestsStore.find(r => r.id === message.connectionId && r.webSocket);
+        if (!connection) {
+            return { success: false, error: '连接已不在内存中，请重新捕获' };
+        }
+        const session: WebSocketRepeaterSession = {
+            id: `ws-repeater-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+            connectionId: connection.id,
+            tabId: connection.tabId,
+            debuggerSessionId: connection.sessionId,
+            url: connection.request.url,
+            mode: message.mode,
+            socket: createWebSocketInfo(),
+            createdAt: Date.now()
+        };
+        if (session.mode === 'live') {
+            session.socket.state = connection.webSocket.state;
+        } else if (session.debuggerSessionId) {
+            // 注入脚本只能在标签页的框架中执行，到达不了跨进程iframe和worker
+            session.socket.state = 'closed';
+            session.error = '该连接来自跨进程iframe或worker，不支持新建连接模式，请使用原连接发送';
+        } else {
+            const protocols = (connection.requestHeaders || [])
+                .filter((h: any) => h.name.toLowerCase() === 'sec-websocket-protocol')
+                .flatMap((h: any) => h.value.split(',').map((p: string) => p.trim()))
+                .filter(Boolean);
             try {
-                // First, try to inject into the original tab
                 await browser.scripting.executeScript({
-                    target: { tabId: requestData.tabId },
-                    ...injection
+                    target: { tabId: session.tabId },
+                    func: openRepeaterSocket,
+                    args: [session.id, session.url, protocols]
                 });
             } catch (e) {
-                console.warn(`Injecting script into original tab ${requestData.tabId} failed. Trying active tab.`, e);
-                try {
-                    // If it fails, find the currently active tab
-                    const [activeTab] = await browser.tabs.query({ active: true, currentWindow: true });
-                    if (activeTab && activeTab.id) {
-                        await browser.scripting.executeScript({
-                            target: { tabId: activeTab.id },
-                            ...injection
-                        });
-                    } else {
-                        throw new Error("No active tab found to initiate replay.");
-                    }
-                } catch (e2) {
-                    console.error("Failed to inject script into any suitable tab. Aborting replay.", e2);
-                    cleanupReplayState(true, '重放失败: 无法注入脚本'); // 更新UI状态
+                session.socket.state = 'closed';
+                session.error = `无法注入脚本: ${e instanceof Error ? e.message : String(e)}`;
+            }
+        }
+        webSocketRepeaterSessions.push(session);
+        broadcastWebSocketRepeaterUpdate();
+        return { success: true, sessionId: session.id };
+    } else if (action === 'ws-repeater-send') {
+        const session = webSocketRepeaterSessions.find(s => s.id === message.sessionId);
+        if (!session) return { success: false, error: '重放会话不存在' };
+        const { payload, opcode } = message;
+        try {
+            if (session.mode === 'live') {
+                if (session.debuggerSessionId && !childSessions.has(session.debuggerSessionId)) {
+                    throw new Error('连接所在的iframe或worker已断开');
+                }
+                await sendOnLiveWebSocket(sessionTarget(session.tabId, session.debuggerSessionId), session.url, payload, opcode);
+            } else {
+                const [result] = await browser.scripting.executeScript({
+                    target: { tabId: session.tabId },
+                    func: sendRepeaterSocket,
+                    args: [session.id, payload, opcode]
+                });
+                if (!result?.result) {
+                    throw new Error('连接未打开');
                 }
             }
-        })();
-    } else if (action === 'replay-fetch-success') {
-        // 处理重放请求成功的消息
-        const { replayId, response } = message;
-        if (replayId && replayDataStore.has(replayId)) {
-            const data = replayDataStore.get(replayId)!;
-            const requestIndex = requestsStore.findIndex(r => r.id === data.replayId);
-            if (requestIndex !== -1) {
-                requestsStore[requestIndex].rawResponse = response;
-                broadcastRequestsUpdate();
+            session.error = undefined;
+            appendFrame(session.socket, { direction: 'sent', opcode, payloadData: payload, time: Date.now() });
+            broadcastWebSocketRepeaterUpdate();
+            return { success: true };
+        } catch (e) {
+            session.error = `发送失败: ${e instanceof Error ? e.message : String(e)}`;
+            broadcastWebSocketRepeaterUpdate();
+            return { success: false, error: session.error };
+        }
+    } else if (action === 'ws-repeater-event') {
+        // 注入脚本新建的连接回传的事件
+        const session = webSocketRepeaterSessions.find(s => s.id === message.sessionId);
+        if (session) {
+            if (message.type === 'open') {
+                session.socket.state = 'open';
+            } else if (message.type === 'message') {
+                appendFrame(session.socket, { direction: 'received', ...message.data, time: Date.now() });
+            } else if (message.type === 'error') {
+                session.error = message.data;
+            } else if (message.type === 'close') {
+                session.socket.state = 'closed';
+                appendFrame(session.socket, {
+                    direction: 'received', opcode: 8, payloadData: message.data, time: Date.now()
+                });
             }
-            
-            // 清理状态
-            clearTimeout(data.timeoutId);
-            replayDataStore.delete(replayId);
-            pendingActions.delete(data.originalId);
+            broadcastWebSocketRepeaterUpdate();
         }
-    } else if (action === 'replay-fetch-failed') {
-        // 处理重放请求失败的消息
-        const { replayId, error } = message;
-        if (replayId && replayDataStore.has(replayId)) {
-            const data = replayDataStore.get(replayId)!;
-            const requestIndex = requestsStore.findIndex(r => r.id === data.replayId);
-            if (requestIndex !== -1) {
-                requestsStore[requestIndex].rawResponse = `重放请求失败: ${error || '未知错误'}`;
-                broadcastRequestsUpdate();
+    } else if (action === 'ws-repeater-close') {
+        // 关闭并移除重放会话（live模式不会关闭页面自己的连接）
+        const session = webSocketRepeaterSessions.find(s => s.id === message.sessionId);
+        if (session) {
+            webSocketRepeaterSessions = webSocketRepeaterSessions.filter(s => s.id !== session.id);
+            if (session.mode === 'new' && session.socket.state !== 'closed') {
+                browser.scripting.executeScript({
+                    target: { tabId: session.tabId },
+                    func: closeRepeaterSocket,
+                    args: [session.id]
+                }).catch(() => {});
             }
-            
-            // 清理状态
-            clearTimeout(data.timeoutId);
-            replayDataStore.delete(replayId);
-            pendingActions.delete(data.originalId);
+            broadcastWebSocketRepeaterUpdate();
         }
-    } else if (action === 'clear-requests') {
-        requestsStore = [];
-        broadcastRequestsUpdate();
     } else if (action === 'set-mode') {
         mode = message.mode;
         updateBadge(isEnabled);
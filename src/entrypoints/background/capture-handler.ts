@@ -0,0 +1,17 @@
+import {
+  CaptureSettings,
+  FetchRequestPattern,
+  buildFetchPatterns
+} from '../popup/services/capture-service';
+
+// 在指定调试目标上启用Fetch域；重复调用会用新的patterns替换旧的。
+// extraPatterns为抓包设置之外临时追加的模式（如重放期间）
+export async function enableFetchDomain(
+  target: chrome.debugger.Debuggee,
+  settings: CaptureSettings,
+  extraPatterns: FetchRequestPattern[] = []
+): Promise<void> {
+  await chrome.debugger.sendCommand(target, 'Fetch.enable', {
+    patterns: [...buildFetchPatterns(settings), ...extraPatterns]
+  });
+}
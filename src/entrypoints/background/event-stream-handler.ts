@@ -0,0 +1,26 @@
+import { base64ToBytes } from '../popup/services/body-service';
+
+// 开始推送响应数据流（之后的Network.dataReceived会携带数据），返回此前已缓冲的数据
+export async function startResourceStreaming(target: chrome.debugger.Debuggee, requestId: string): Promise<Uint8Array> {
+  const result = await chrome.debugger.sendCommand(target, 'Network.streamResourceContent', {
+    requestId
+  }) as { bufferedData?: string };
+  return base64ToBytes(result.bufferedData || '');
+}
+
+// 读取响应体，超时返回null（长连接的流式响应在结束前无法读取）
+export async function getResponseBodyWithTimeout(
+  target: chrome.debugger.Debuggee, requestId: string, timeout: number
+): Promise<{ body: string; base64Encoded: boolean } | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      chrome.debugger.sendCommand(target, 'Fetch.getResponseBody', { requestId }) as Promise<{ body: string; base64Encoded: boolean }>,
+      new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), timeout);
+      })
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,32 @@
+// 保存的响应文本上限，查看结果详情时使用
+export const MAX_INTRUDER_RESPONSE_LENGTH = 16 * 1024;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 以固定并发数依次处理任务，相邻两次开始之间至少间隔throttle毫秒；shouldStop返回true后不再开始新任务
+export async function runThrottled<T>(
+  items: Iterator<T>,
+  concurrency: number,
+  throttle: number,
+  shouldStop: () => boolean,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let nextStartAt = 0;
+
+  const runWorker = async () => {
+    while (!shouldStop()) {
+      const next = items.next();
+      if (next.done) return;
+      if (throttle > 0) {
+        const now = Date.now();
+        const startAt = Math.max(now, nextStartAt);
+        nextStartAt = startAt + throttle;
+        await sleep(startAt - now);
+        if (shouldStop()) return;
+      }
+      await worker(next.value);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, runWorker));
+}
@@ -0,0 +1,23 @@
+import {
+  MapLocalRule,
+  parseHeaderLines
+} from '../popup/services/map-local-service';
+
+// 按规则延迟后使用本地响应完成请求，不发出网络请求
+export async function fulfillWithMapLocalRule(
+  target: chrome.debugger.Debuggee,
+  requestId: string,
+  rule: MapLocalRule
+): Promise<void> {
+  if (rule.latency > 0) {
+    await new Promise(resolve => setTimeout(resolve, rule.latency));
+  }
+
+  await chrome.debugger.sendCommand(target, 'Fetch.fulfillRequest', {
+    requestId,
+    responseCode: rule.statusCode,
+    responsePhrase: rule.statusText || undefined,
+    responseHeaders: parseHeaderLines(rule.headers),
+    body: rule.bodyBase64 ? rule.body : btoa(unescape(encodeURIComponent(rule.body)))
+  });
+}
@@ -0,0 +1,85 @@
+import { NetworkInfo, BlockedCookie, computeTiming } from '../popup/services/network-info-service';
+
+type Header = { name: string; value: string };
+
+// 将CDP的Headers对象转换为数组
+export const toHeaderArray = (headers: Record<string, string> = {}): Header[] =>
+  Object.entries(headers).flatMap(([name, value]) =>
+    // CDP用换行合并同名头部
+    String(value).split('\n').map(v => ({ name, value: v }))
+  );
+
+// 替换指定方向的被阻止Cookie，重定向时每一跳会重新上报
+const replaceBlockedCookies = (info: NetworkInfo, direction: BlockedCookie['direction'], cookies: BlockedCookie[]) => {
+  info.blockedCookies = [...(info.blockedCookies || []).filter(c => c.direction !== direction), ...cookies];
+};
+
+// 在指定调试目标上启用Network域，用于收集耗时、大小、远程地址和TLS信息
+export async function enableNetworkDomain(target: chrome.debugger.Debuggee): Promise<void> {
+  await chrome.debugger.sendCommand(target, 'Network.enable', {});
+}
+
+// 将Network域事件合并到请求的网络信息中，返回请求是否已结束
+export function mergeNetworkEvent(info: NetworkInfo, method: string, params: any): boolean {
+  switch (method) {
+    case 'Network.requestWillBeSent':
+      // 重定向复用同一requestId，从新的请求重新计时
+      info.startTime = params.timestamp;
+      info.resourceTiming = undefined;
+      info.decodedBodyLength = 0;
+      return false;
+    case 'Network.responseReceived': {
+      const { response } = params;
+      info.protocol = response.protocol;
+      info.remoteAddress = response.remoteIPAddress
+        ? `${response.remoteIPAddress.includes(':') ? `[${response.remoteIPAddress}]` : response.remoteIPAddress}:${response.remotePort}`
+        : undefined;
+      info.fromCache = !!(response.fromDiskCache || response.fromPrefetchCache || response.fromServiceWorker);
+      info.resourceTiming = response.timing;
+      info.securityState = response.securityState;
+      if (response.securityDetails) {
+        const details = response.securityDetails;
+        info.securityDetails = {
+          protocol: details.protocol,
+          keyExchange: details.keyExchangeGroup ? `${details.keyExchange || 'TLS 1.3'} (${details.keyExchangeGroup})` : details.keyExchange,
+          cipher: details.mac ? `${details.cipher} / ${details.mac}` : details.cipher,
+          subjectName: details.subjectName,
+          issuer: details.issuer,
+          validFrom: details.validFrom,
+          validTo: details.validTo,
+          sanList: details.sanList || []
+        };
+      }
+      return false;
+    }
+    case 'Network.requestWillBeSentExtraInfo':
+      info.requestHeaders = toHeaderArray(params.headers);
+      replaceBlockedCookies(info, 'request', (params.associatedCookies || [])
+        .filter((c: any) => c.blockedReasons?.length > 0)
+        .map((c: any) => ({ direction: 'request', name: c.cookie.name, value: c.cookie.value, reasons: c.blockedReasons })));
+      return false;
+    case 'Network.responseReceivedExtraInfo':
+      info.responseHeaders = toHeaderArray(params.headers);
+      replaceBlockedCookies(info, 'response', (params.blockedCookies || [])
+        .map((c: any) => ({
+          direction: 'response',
+          name: c.cookie?.name || c.cookieLine.split('=')[0].trim(),
+          value: c.cookieLine,
+          reasons: c.blockedReasons
+        })));
+      return false;
+    case 'Network.dataReceived':
+      info.decodedBodyLength = (info.decodedBodyLength || 0) + (params.dataLength || 0);
+      return false;
+    case 'Network.loadingFinished':
+      info.encodedDataLength = params.encodedDataLength;
+      info.timing = computeTiming(info, params.timestamp);
+      return true;
+    case 'Network.loadingFailed':
+      info.failed = params.errorText;
+      info.timing = computeTiming(info, params.timestamp);
+      return true;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,67 @@
+import browser from 'webextension-polyfill';
+
+type Header = { name: string; value: string };
+
+// 被动捕获时响应中的占位内容（webRequest无法读取响应体）
+export const PASSIVE_BODY_PLACEHOLDER = '[被动捕获，无法获取响应体]';
+
+// 被动捕获的请求ID，与调试器捕获的请求区分
+export const passiveEntryId = (requestId: string): string => `passive-${requestId}`;
+
+// webRequest的资源类型对应的CDP ResourceType，用于套用抓包设置；fetch和XHR在webRequest中都是xmlhttprequest
+const PASSIVE_RESOURCE_TYPES: Record<string, string[]> = {
+  main_frame: ['Document'],
+  sub_frame: ['Document'],
+  xmlhttprequest: ['XHR', 'Fetch'],
+  script: ['Script'],
+  stylesheet: ['Stylesheet'],
+  image: ['Image'],
+  imageset: ['Image'],
+  media: ['Media'],
+  font: ['Font'],
+  ping: ['Ping'],
+  beacon: ['Ping'],
+  csp_report: ['CSPViolationReport'],
+};
+
+export const passiveResourceTypes = (type: string): string[] => PASSIVE_RESOURCE_TYPES[type] || ['Other'];
+
+export const toHeaderList = (headers: browser.WebRequest.HttpHeaders = []): Header[] =>
+  headers.map(h => ({ name: h.name, value: h.value ?? '' }));
+
+// 还原webRequest提供的请求体：表单按urlencoded拼接，原始数据按UTF-8解码
+export function formatRequestBody(requestBody?: browser.WebRequest.OnBeforeRequestDetailsTypeRequestBodyType): string | undefined {
+  if (!requestBody) return undefined;
+  if (requestBody.error) return `[请求体读取失败: ${requestBody.error}]`;
+
+  if (requestBody.formData) {
+    return Object.entries(requestBody.formData)
+      .flatMap(([name, values]) => ([] as string[]).concat(values).map(value => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`))
+      .join('&');
+  }
+
+  if (requestBody.raw) {
+    const decoder = new TextDecoder();
+    return requestBody.raw
+      .map(part => part.bytes ? decoder.decode(part.bytes as ArrayBuffer) : part.file ? `[文件: ${part.file}]` : '')
+      .join('');
+  }
+  return undefined;
+}
+
+// 生成原始请求文本
+export function buildPassiveRawRequest(method: string, url: string, headers: Header[], body?: string): string {
+  let rawRequest = `${method} ${url} HTTP/1.1\r\n`;
+  headers.forEach(h => rawRequest += `${h.name}: ${h.value}\r\n`);
+  if (body) {
+    rawRequest += `\r\n${body}`;
+  }
+  return rawRequest;
+}
+
+// 生成原始响应文本，statusLine形如"HTTP/1.1 200 OK"
+export function buildPassiveRawResponse(statusLine: string, headers: Header[]): string {
+  let rawResponse = `${statusLine}\r\n`;
+  headers.forEach(h => rawResponse += `${h.name}: ${h.value}\r\n`);
+  return `${rawResponse}\r\n${PASSIVE_BODY_PLACEHOLDER}`;
+}
@@ -0,0 +1,40 @@
+// 竞争测试的闸门：副本在Fetch.requestPaused暂停后先登记，全部到达或超时后同时放行
+export interface ReleaseGate {
+  arrive(release: () => Promise<void>): void;
+  releasedAt?: number;
+  arrivedCount: number;
+}
+
+export function createReleaseGate(expected: number, timeout: number): ReleaseGate {
+  const waiting: (() => Promise<void>)[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const gate: ReleaseGate = {
+    arrivedCount: 0,
+    arrive(release) {
+      gate.arrivedCount++;
+      // 超时放行后才到达的副本直接发出
+      if (gate.releasedAt !== undefined) {
+        release().catch(e => console.error('放行竞争请求失败:', e));
+        return;
+      }
+      waiting.push(release);
+      if (waiting.length === 1) {
+        timer = setTimeout(open, timeout);
+      }
+      if (waiting.length >= expected) {
+        open();
+      }
+    }
+  };
+
+  // 不等待单个命令完成，让所有continueRequest尽量在同一时刻发给浏览器
+  const open = () => {
+    if (gate.releasedAt !== undefined) return;
+    if (timer) clearTimeout(timer);
+    gate.releasedAt = Date.now();
+    waiting.splice(0).forEach(release => release().catch(e => console.error('放行竞争请求失败:', e)));
+  };
+
+  return gate;
+}
@@ -0,0 +1,126 @@
+import browser from 'webextension-polyfill';
+import { ReplayOptions, ReplayRequest } from '../popup/services/replay-service';
+
+type Header = { name: string; value: string };
+
+// 重放请求的标记头，调试器拦截到带此头部的请求后替换为输入的请求头
+export const REPLAY_ID_HEADER = 'X-Replay-Id';
+
+// 执行fetch的结果
+export interface FetchResult {
+  success: boolean;
+  statusCode?: number;
+  statusText?: string;
+  headers?: Header[];
+  body?: string;
+  finalUrl?: string;
+  redirected?: boolean;
+  opaqueRedirect?: boolean; // 不跟随重定向时fetch只返回opaqueredirect，状态和头部需从调试器获取
+  error?: string;
+  duration: number;
+  startedAt?: number; // 实际调用fetch的时间
+  completedAt?: number; // 读完响应体的时间
+}
+
+// fetch的执行选项；startAt用于竞争测试，多个副本等到同一时刻再发出
+export type FetchOptions = Pick<ReplayOptions, 'credentials' | 'followRedirects' | 'timeout'> & { startAt?: number };
+
+// 执行重放的fetch，可注入页面执行，也可直接在扩展后台执行。
+// 带replayId时附加标记头，由调试器按输入内容替换全部请求头（fetch不能设置Cookie、Origin、Referer、Host等头部）；
+// 调试器未拦截到时仍按fetch允许的头部发送
+export const executeReplayFetch = async (
+  request: ReplayRequest,
+  options: FetchOptions,
+  replayId?: string
+): Promise<FetchResult> => {
+  if (options.startAt) {
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, options.startAt! - Date.now())));
+  }
+  const startedAt = Date.now();
+  const start = performance.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeout);
+  try {
+    const headers: Record<string, string> = {};
+    request.headers.forEach(h => {
+      if (!['content-length', 'host'].includes(h.name.toLowerCase())) {
+        headers[h.name] = h.value;
+      }
+    });
+    if (replayId) {
+      headers['X-Replay-Id'] = replayId;
+    }
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers,
+      credentials: options.credentials,
+      redirect: options.followRedirects ? 'follow' : 'manual',
+      cache: 'no-store',
+      signal: controller.signal,
+      body: request.body !== undefined && !['GET', 'HEAD'].includes(request.method.toUpperCase()) ? request.body : undefined
+    });
+    const body = await response.text();
+    const responseHeaders: Header[] = [];
+    response.headers.forEach((value, name) => responseHeaders.push({ name, value }));
+    return {
+      success: true,
+      statusCode: response.status,
+      statusText: response.statusText,
+      headers: responseHeaders,
+      body,
+      finalUrl: response.url,
+      redirected: response.redirected,
+      opaqueRedirect: response.type === 'opaqueredirect',
+      duration: Math.round(performance.now() - start),
+      startedAt,
+      completedAt: Date.now()
+    };
+  } catch (e) {
+    const error = controller.signal.aborted ? `请求超时（${options.timeout} ms）` : e instanceof Error ? e.message : String(e);
+    return { success: false, error, duration: Math.round(performance.now() - start), startedAt, completedAt: Date.now() };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// 在指定标签页中执行重放
+export async function runReplayInTab(
+  tabId: number, request: ReplayRequest, options: ReplayOptions, replayId?: string, startAt?: number
+): Promise<FetchResult> {
+  const fetchOptions: FetchOptions = { credentials: options.credentials, followRedirects: options.followRedirects, timeout: options.timeout, startAt };
+  const [injection] = await browser.scripting.executeScript({
+    target: { tabId },
+    func: executeReplayFetch,
+    args: [request, fetchOptions, replayId]
+  });
+  return injection.result as FetchResult;
+}
+
+// 查找当前活动的网页标签页，原标签页不可用时作为重放环境
+export async function findActiveWebTab(): Promise<number | undefined> {
+  const [activeTab] = await browser.tabs.query({ active: true, lastFocusedWindow: true, url: ['http://*/*', 'https://*/*'] });
+  return activeTab?.id;
+}
+
+// 在后台新开目标源的标签页作为独立的重放环境，等待页面加载完成。
+// 先以空白页创建，通过onCreated登记后再导航，避免被抓包目标自动附加调试器
+export async function openIsolatedTab(url: string, timeout: number, onCreated: (tabId: number) => void): Promise<number> {
+  const tab = await browser.tabs.create({ url: 'about:blank', active: false });
+  const tabId = tab.id!;
+  onCreated(tabId);
+  const loaded = new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      browser.tabs.onUpdated.removeListener(listener);
+      resolve();
+    };
+    const listener = (updatedTabId: number, changeInfo: browser.Tabs.OnUpdatedChangeInfoType, updatedTab: browser.Tabs.Tab) => {
+      if (updatedTabId === tabId && changeInfo.status === 'complete' && /^https?:/i.test(updatedTab.url || '')) done();
+    };
+    const timer = setTimeout(done, timeout);
+    browser.tabs.onUpdated.addListener(listener);
+  });
+  await browser.tabs.update(tabId, { url: `${new URL(url).origin}/` });
+  await loaded;
+  return tabId;
+}
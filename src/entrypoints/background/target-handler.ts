@@ -0,0 +1,31 @@
+import { CaptureSettings } from '../popup/services/capture-service';
+import { enableFetchDomain } from './capture-handler';
+import { enableNetworkDomain } from './network-handler';
+
+// 带sessionId的调试目标，用于向自动附加的子目标（iframe、worker）发送命令
+export type DebuggerSession = chrome.debugger.Debuggee & { sessionId?: string };
+
+export const sessionTarget = (tabId: number, sessionId?: string): DebuggerSession =>
+  sessionId ? { tabId, sessionId } : { tabId };
+
+// 开启子目标自动附加，flatten模式下子目标的事件和命令通过sessionId区分
+export async function enableAutoAttach(target: DebuggerSession): Promise<void> {
+  await chrome.debugger.sendCommand(target, 'Target.setAutoAttach', {
+    autoAttach: true,
+    waitForDebuggerOnStart: true,
+    flatten: true
+  });
+}
+
+// 子目标附加后启用Fetch和Network域，再让其继续运行，保证首个请求也能被捕获
+export async function setupChildTarget(target: DebuggerSession, settings: CaptureSettings): Promise<void> {
+  try {
+    await enableFetchDomain(target, settings);
+    // 部分worker不支持Network域，失败时只缺少网络信息
+    await enableNetworkDomain(target).catch(() => {});
+    // iframe中还可能创建worker或嵌套iframe
+    await enableAutoAttach(target).catch(() => {});
+  } finally {
+    await chrome.debugger.sendCommand(target, 'Runtime.runIfWaitingForDebugger', {}).catch(() => {});
+  }
+}
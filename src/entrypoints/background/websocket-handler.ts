@@ -0,0 +1,153 @@
+import { WebSocketInfo, appendFrame } from '../popup/services/websocket-service';
+import { toHeaderArray } from './network-handler';
+import { DebuggerSession } from './target-handler';
+
+// 将WebSocket相关的Network域事件合并到连接记录中
+export function mergeWebSocketEvent(entry: any, method: string, params: any): void {
+  const info: WebSocketInfo = entry.webSocket;
+  switch (method) {
+    case 'Network.webSocketWillSendHandshakeRequest': {
+      const headers = toHeaderArray(params.request?.headers);
+      let rawRequest = `GET ${entry.request.url} HTTP/1.1\r\n`;
+      headers.forEach(h => rawRequest += `${h.name}: ${h.value}\r\n`);
+      entry.rawRequest = rawRequest;
+      entry.requestHeaders = headers;
+      entry.request.headers = Object.fromEntries(headers.map(h => [h.name, h.value]));
+      break;
+    }
+    case 'Network.webSocketHandshakeResponseReceived': {
+      const { response } = params;
+      const headers = toHeaderArray(response.headers);
+      let rawResponse = `HTTP/1.1 ${response.status}${response.statusText ? ` ${response.statusText}` : ''}\r\n`;
+      headers.forEach(h => rawResponse += `${h.name}: ${h.value}\r\n`);
+      entry.rawResponse = rawResponse;
+      entry.responseHeaders = headers;
+      info.state = 'open';
+      break;
+    }
+    case 'Network.webSocketFrameSent':
+    case 'Network.webSocketFrameReceived':
+      appendFrame(info, {
+        direction: method === 'Network.webSocketFrameSent' ? 'sent' : 'received',
+        opcode: params.response.opcode,
+        payloadData: params.response.payloadData || '',
+        time: Date.now()
+      });
+      break;
+    case 'Network.webSocketFrameError':
+      appendFrame(info, { direction: 'received', opcode: -1, payloadData: '', time: Date.now(), error: params.errorMessage });
+      break;
+    case 'Network.webSocketClosed':
+      info.state = 'closed';
+      break;
+  }
+}
+
+// 收集调试目标中各框架的WebSocket.prototype：每个框架有自己的原型，同进程iframe只能经由父窗口访问（跨源的访问不到）；
+// worker中没有frames
+const COLLECT_PROTOTYPES_EXPRESSION = `(() => {
+  const prototypes = [WebSocket.prototype];
+  const walk = win => {
+    for (let i = 0; i < ((win.frames && win.frames.length) || 0); i++) {
+      try {
+        prototypes.push(win.frames[i].WebSocket.prototype);
+        walk(win.frames[i]);
+      } catch (e) { /* 跨源框架 */ }
+    }
+  };
+  walk(globalThis);
+  return prototypes;
+})()`;
+
+// 在页面已有的WebSocket连接上发送消息：通过Runtime.queryObjects找到页面中的WebSocket实例；
+// 子目标（跨进程iframe、worker）中的连接需要传入带sessionId的target
+export async function sendOnLiveWebSocket(
+  target: DebuggerSession, url: string, payload: string, opcode: number
+): Promise<void> {
+  const objectGroup = 'fastburp-ws-repeater';
+  try {
+    const prototypeList = await chrome.debugger.sendCommand(target, 'Runtime.evaluate', {
+      expression: COLLECT_PROTOTYPES_EXPRESSION, objectGroup
+    }) as { result: { objectId: string } };
+    const properties = await chrome.debugger.sendCommand(target, 'Runtime.getProperties', {
+      objectId: prototypeList.result.objectId, ownProperties: true
+    }) as { result: { name: string; value?: { objectId?: string } }[] };
+    const prototypeIds = properties.result
+      .filter(p => /^\d+$/.test(p.name) && p.value?.objectId)
+      .map(p => p.value!.objectId!);
+
+    for (const prototypeObjectId of prototypeIds) {
+      const instances = await chrome.debugger.sendCommand(target, 'Runtime.queryObjects', {
+        prototypeObjectId, objectGroup
+      }) as { objects: { objectId: string } };
+      const result = await chrome.debugger.sendCommand(target, 'Runtime.callFunctionOn', {
+        objectId: instances.objects.objectId,
+        functionDeclaration: `function (url, payload, isBinary) {
+          const normalize = value => { try { return new URL(value).href; } catch (e) { return value; } };
+          const socket = this.find(s => normalize(s.url) === normalize(url) && s.readyState === s.OPEN);
+          if (!socket) return false;
+          socket.send(isBinary ? Uint8Array.from(atob(payload), c => c.charCodeAt(0)) : payload);
+          return true;
+        }`,
+        arguments: [{ value: url }, { value: payload }, { value: opcode === 2 }],
+        returnByValue: true
+      }) as { result: { value?: boolean }; exceptionDetails?: { text: string } };
+
+      if (result.exceptionDetails) {
+        throw new Error(result.exceptionDetails.text);
+      }
+      if (result.result.value) return;
+    }
+    throw new Error('没有找到该地址上已打开的WebSocket连接（跨源iframe中的连接不支持在原连接上发送）');
+  } finally {
+    chrome.debugger.sendCommand(target, 'Runtime.releaseObjectGroup', { objectGroup }).catch(() => {});
+  }
+}
+
+// 以下函数通过scripting.executeScript注入页面执行，连接句柄保存在注入环境的全局对象中
+
+// 从页面新建WebSocket连接，事件通过runtime消息回传后台
+export const openRepeaterSocket = (sessionId: string, url: string, protocols: string[]) => {
+  const sockets = ((globalThis as any).__fastburpWebSockets ||= {});
+  const report = (type: string, data?: any) => {
+    chrome.runtime.sendMessage({ action: 'ws-repeater-event', sessionId, type, data }).catch(() => {});
+  };
+  try {
+    const socket = protocols.length > 0 ? new WebSocket(url, protocols) : new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+    sockets[sessionId] = socket;
+    socket.onopen = () => report('open');
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data === 'string') {
+        report('message', { opcode: 1, payloadData: event.data });
+      } else {
+        const bytes = new Uint8Array(event.data);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i++) {
+          binary += String.fromCharCode(bytes[i]);
+        }
+        report('message', { opcode: 2, payloadData: btoa(binary) });
+      }
+    };
+    socket.onerror = () => report('error', 'WebSocket连接错误');
+    socket.onclose = (event: CloseEvent) => {
+      delete sockets[sessionId];
+      report('close', `${event.code}${event.reason ? ` ${event.reason}` : ''}`);
+    };
+  } catch (e) {
+    report('error', e instanceof Error ? e.message : String(e));
+  }
+};
+
+// 在重放会话新建的连接上发送消息，连接不存在或未打开时返回false
+export const sendRepeaterSocket = (sessionId: string, payload: string, opcode: number): boolean => {
+  const socket = (globalThis as any).__fastburpWebSockets?.[sessionId];
+  if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+  socket.send(opcode === 2 ? Uint8Array.from(atob(payload), c => c.charCodeAt(0)) : payload);
+  return true;
+};
+
+// 关闭重放会话新建的连接
+export const closeRepeaterSocket = (sessionId: string) => {
+  (globalThis as any).__fastburpWebSockets?.[sessionId]?.close();
+};
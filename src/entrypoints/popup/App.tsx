@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, createRef, RefObject, useCallback } from 'react';
+import { useState, useEffect, useMemo, createRef, RefObject, useCallback, useRef } from 'react';
 import browser from 'webextension-polyfill';
 import './App.css';
 import './styles/TabSelector.css';
@@ -6,7 +6,7 @@ import {
     FiPlay, FiRefreshCw, FiTrash2, FiSearch, FiChevronLeft, FiChevronRight, 
     FiFilter, FiCheckCircle, FiPauseCircle, FiLoader, FiChevronsRight, FiAlertTriangle,
     FiEye, FiPlus, FiX, FiSettings, FiMessageCircle, FiClock, FiGithub, FiServer,
-    FiActivity, FiCode, FiList
+    FiActivity, FiCode, FiList, FiColumns, FiSlash, FiXCircle, FiSliders, FiRepeat, FiHardDrive, FiShuffle, FiArchive, FiInfo, FiSave, FiSend, FiCornerUpRight, FiCrosshair, FiZap
 } from 'react-icons/fi';
 
 // 导入新的AI组件
@@ -26,6 +26,58 @@ import { FingerprintDetector } from './components/FingerprintDetector';
 // 导入编码解码组件
 import EncoderDecoder from './components/EncoderDecoder';
 
+// 导入抓包设置组件
+import CaptureSettings from './components/CaptureSettings';
+import TabTargetPicker from './components/TabTargetPicker';
+import { TargetOrigin, TARGET_TYPE_LABELS } from './services/capture-service';
+import { tabTargetService } from './services/tab-target-service';
+
+// 导入流量规则组件
+import TrafficRules from './components/TrafficRules';
+
+// 导入请求对比组件
+import RequestDiffView, { RequestSnapshot, headersToArray } from './components/RequestDiffView';
+
+// 导入请求历史服务
+import { historyService, HistoryEntry } from './services/history-service';
+
+// 导入HAR导出导入组件
+import HarActions from './components/HarActions';
+
+// 导入网络信息组件
+import NetworkDetails from './components/NetworkDetails';
+import { NetworkInfo, formatBytes, formatDuration } from './services/network-info-service';
+
+// 导入响应体视图组件
+import ResponseBodyView, { ResponseViewMode } from './components/ResponseBodyView';
+import { base64ToBytes, detectMimeType, downloadBody, suggestFileName } from './services/body-service';
+import { splitRawResponse } from './services/har-service';
+
+// 导入WebSocket帧组件
+import WebSocketFrames from './components/WebSocketFrames';
+import WebSocketRepeater, { WebSocketRepeaterDraft } from './components/WebSocketRepeater';
+import { WebSocketInfo } from './services/websocket-service';
+
+// 导入重放器组件
+import Repeater from './components/Repeater';
+import { RepeaterDraft } from './services/repeater-service';
+import { replayService } from './services/replay-service';
+
+// 导入测试器组件
+import Intruder from './components/Intruder';
+import { IntruderDraft } from './services/intruder-service';
+
+// 导入竞争测试组件
+import RaceTester from './components/RaceTester';
+import { RaceDraft } from './services/race-service';
+
+// 导入流式响应事件组件
+import EventStreamEvents from './components/EventStreamEvents';
+import { EventStreamInfo } from './services/event-stream-service';
+
+// 每次从历史库加载的请求数
+const HISTORY_PAGE_SIZE = 200;
+
 interface InterceptedRequest {
   id: string;
   tabId: number;
@@ -34,26 +86,65 @@ interface InterceptedRequest {
     url: string;
     method: string;
     headers?: Record<string, string>; // 添加请求头字段
+    postData?: string;
   };
   rawRequest: string;
   rawResponse?: string;
-  status: 'paused' | 'finished'; // 'pending' is no longer needed
+  status: 'paused' | 'finished' | 'pending' | 'failed'; // pending和failed用于被动捕获的请求
+  pausedStage?: 'request' | 'response'; // 暂停所处的阶段
   isRedirect: boolean;
   requestHeaders?: { name: string; value: string }[]; // 添加结构化请求头
   responseHeaders?: { name: string; value: string }[]; // 添加结构化响应头
+  forwardedRequest?: RequestSnapshot; // 实际放行的请求（拦截模式下编辑后）
+  droppedReason?: string; // 被丢弃时使用的网络错误原因
+  mapLocalRule?: string; // 命中的本地映射规则名称（响应来自本地）
+  mappedUrl?: string; // 远程映射后实际请求的URL
+  timestamp?: number; // 捕获时间
+  imported?: boolean; // 从HAR文件导入的只读请求
+  network?: NetworkInfo; // Network域收集的耗时、大小、远程地址和TLS信息
+  mimeType?: string; // 识别出的响应体类型
+  responseBodyBase64?: string; // 二进制响应体的原始字节
+  webSocket?: WebSocketInfo; // WebSocket连接的状态和帧
+  eventStream?: EventStreamInfo; // SSE/NDJSON流式响应的事件
+  sessionId?: string; // 来自自动附加的子目标时的调试会话
+  targetOrigin?: TargetOrigin; // 发起请求的跨进程iframe或worker
+  passive?: boolean; // 调试器无法附加时通过webRequest被动捕获（无响应体）
+  replayOf?: string; // 重放产生的请求对应的原请求ID
 }
 
 type FilterType = 'all' | 'finished' | 'paused';
 type ModeType = 'intercept' | 'proxy'; // 新增模式类型
 
-type TabType = 'requests' | 'fingerprint' | 'regex' | 'proxy' | 'encoder';
+type TabType = 'requests' | 'capture' | 'traffic' | 'repeater' | 'intruder' | 'race' | 'websocket' | 'fingerprint' | 'regex' | 'proxy' | 'encoder';
+
+// 丢弃请求时可选的网络错误原因（对应CDP Network.ErrorReason）
+const DROP_ERROR_REASONS: { value: string; label: string }[] = [
+  { value: 'Aborted', label: '中止 (Aborted)' },
+  { value: 'BlockedByClient', label: '客户端拦截 (BlockedByClient)' },
+  { value: 'ConnectionRefused', label: '连接被拒绝 (ConnectionRefused)' },
+  { value: 'ConnectionReset', label: '连接重置 (ConnectionReset)' },
+  { value: 'ConnectionClosed', label: '连接关闭 (ConnectionClosed)' },
+  { value: 'TimedOut', label: '超时 (TimedOut)' },
+  { value: 'NameNotResolved', label: '域名无法解析 (NameNotResolved)' },
+  { value: 'InternetDisconnected', label: '网络断开 (InternetDisconnected)' },
+  { value: 'AccessDenied', label: '拒绝访问 (AccessDenied)' },
+  { value: 'Failed', label: '通用失败 (Failed)' }
+];
 
 function App() {
   const [isEnabled, setIsEnabled] = useState(false);
   const [mode, setMode] = useState<ModeType>('intercept'); // 新增模式状态
+  const [interceptResponses, setInterceptResponses] = useState(false); // 是否拦截响应
   const [requests, setRequests] = useState<InterceptedRequest[]>([]);
+  const [historyRequests, setHistoryRequests] = useState<InterceptedRequest[]>([]); // 从历史库加载的请求
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const liveRequestsRef = useRef<InterceptedRequest[]>([]);
   const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
+  const [markedRequestIds, setMarkedRequestIds] = useState<Set<string>>(new Set()); // Ctrl/⌘+点击多选的请求
   const [requestText, setRequestText] = useState(''); // Bring back the separate state for the editor
+  const [responseText, setResponseText] = useState(''); // 响应编辑器内容（拦截响应时）
+  const [responseEditId, setResponseEditId] = useState<string | null>(null);
   const [filter, setFilter] = useState<FilterType>('all');
   
   // **New**: State for method filter
@@ -61,6 +152,7 @@ function App() {
   
   const [pendingRequestIds, setPendingRequestIds] = useState<Set<string>>(new Set());
   const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [dropReason, setDropReason] = useState('Aborted');
   
   // 搜索相关状态
   const [searchQuery, setSearchQuery] = useState('');
@@ -78,9 +170,45 @@ function App() {
   const responseBodyRef = createRef<HTMLDivElement>();
   const [requestHeaders, setRequestHeaders] = useState<{ name: string; value: string }[]>([]);
   const [showHeadersEditor, setShowHeadersEditor] = useState(false);
+  const [showForwardDiff, setShowForwardDiff] = useState(false);
+  const [showNetworkDetails, setShowNetworkDetails] = useState(false);
+  const [responseView, setResponseView] = useState<ResponseViewMode>('text');
+  const [wsRepeaterDraft, setWsRepeaterDraft] = useState<WebSocketRepeaterDraft | null>(null);
+  const [repeaterDraft, setRepeaterDraft] = useState<RepeaterDraft | null>(null);
+  const [intruderDraft, setIntruderDraft] = useState<IntruderDraft | null>(null);
+  const [raceDraft, setRaceDraft] = useState<RaceDraft | null>(null);
   
+  // 历史请求在前，后台内存中的实时请求在后；同一请求以实时数据为准
+  const allRequests = useMemo(() => {
+    const liveIds = new Set(requests.map(r => r.id));
+    return [...historyRequests.filter(r => !liveIds.has(r.id)), ...requests];
+  }, [requests, historyRequests]);
+
   // 选中的请求
-  const selectedRequest = requests.find(r => r.id === selectedRequestId) || null;
+  const selectedRequest = allRequests.find(r => r.id === selectedRequestId) || null;
+
+  // 响应体原始字节：二进制响应使用保留的base64，文本响应按UTF-8编码
+  const responseBody = useMemo(() => {
+    if (!selectedRequest?.rawResponse) return null;
+    const parsed = splitRawResponse(selectedRequest.rawResponse);
+    const headers = parsed?.headers || selectedRequest.responseHeaders || [];
+    const bytes = selectedRequest.responseBodyBase64
+      ? base64ToBytes(selectedRequest.responseBodyBase64)
+      : new TextEncoder().encode(parsed?.body || '');
+    return { bytes, mimeType: selectedRequest.mimeType || detectMimeType(headers, bytes) };
+  }, [selectedRequest?.rawResponse, selectedRequest?.responseBodyBase64, selectedRequest?.mimeType]);
+
+  // 内存中的WebSocket连接，供WS重放选择
+  const webSocketConnections = useMemo(
+    () => requests.filter(r => r.webSocket).map(r => ({ id: r.id, url: r.request.url, state: r.webSocket!.state })),
+    [requests]
+  );
+
+  // 保存响应体到文件
+  const handleSaveResponseBody = () => {
+    if (!selectedRequest || !responseBody) return;
+    downloadBody(responseBody.bytes, responseBody.mimeType, suggestFileName(selectedRequest.request.url, responseBody.mimeType));
+  };
 
   // AI相关状态
   const [showAIDialog, setShowAIDialog] = useState(false);
@@ -99,10 +227,23 @@ function App() {
   
   useEffect(() => {
     browser.runtime.sendMessage({ action: 'get-initial-requests' });
+    loadHistoryPage();
 
     const handleMessage = (message: any) => {
-      if (message.action === 'update-requests') {
-        setRequests(message.data || []);
+      if (message.action === 'history-cleared') {
+        liveRequestsRef.current = [];
+        setHistoryRequests([]);
+        setHasMoreHistory(false);
+      } else if (message.action === 'update-requests') {
+        const nextRequests: InterceptedRequest[] = message.data || [];
+        // 后台裁剪出内存的请求已写入历史库，移入历史列表继续显示
+        const nextIds = new Set(nextRequests.map(r => r.id));
+        const trimmedRequests = liveRequestsRef.current.filter(r => !nextIds.has(r.id));
+        if (trimmedRequests.length > 0) {
+          setHistoryRequests(prev => [...prev, ...trimmedRequests]);
+        }
+        liveRequestsRef.current = nextRequests;
+        setRequests(nextRequests);
         // When the list updates, it means any pending actions are now complete
         setPendingRequestIds(new Set());
         setReplayingId(null);
@@ -111,9 +252,10 @@ function App() {
     browser.runtime.onMessage.addListener(handleMessage);
 
     // 获取初始状态
-    browser.storage.local.get(['networkInterceptorEnabled', 'networkInterceptorMode']).then((result) => {
+    browser.storage.local.get(['networkInterceptorEnabled', 'networkInterceptorMode', 'networkInterceptorInterceptResponses']).then((result) => {
         setIsEnabled(!!result.networkInterceptorEnabled);
         setMode(result.networkInterceptorMode || 'intercept');
+        setInterceptResponses(!!result.networkInterceptorInterceptResponses);
     });
 
     return () => {
@@ -210,7 +352,7 @@ function App() {
     }
   }, [showResponseWarning]);
 
-  // 处理重放逻辑
+  // 重放选中的请求：由后台按重放器中设置的执行环境和选项发送，结果作为新请求加入列表，不覆盖原请求的响应
   const handleReplay = async () => {
     if (!selectedRequest) return;
     setPendingRequestIds(prev => new Set(prev).add(selectedRequest.id));
@@ -218,65 +360,15 @@ function App() {
     setShowResponseWarning(false); // 重放时清除警告
     
     try {
-      // 直接使用fetch发送请求，不依赖background脚本
-      const parsedRequest = parseRawRequest(requestText);
-      const url = parsedRequest.url;
-      const method = parsedRequest.method;
-      
-      // 构建请求选项
-      const fetchOptions: RequestInit = {
-        method: method,
-        headers: headersArrayToObject(requestHeaders),
-        credentials: 'include',
-        // 如果有请求体且不是GET或HEAD请求，添加请求体
-        ...(parsedRequest.postData && !['GET', 'HEAD'].includes(method) ? { body: parsedRequest.postData } : {})
-      };
-      
-      // 发送请求
-      const response = await fetch(url, fetchOptions);
-      
-      // 处理响应
-      const responseHeaders: { name: string; value: string }[] = [];
-      response.headers.forEach((value, name) => {
-        responseHeaders.push({ name, value });
-      });
-      
-      const responseText = await response.text();
-      let rawResponse = `HTTP/1.1 ${response.status} ${response.statusText}\r\n`;
-      response.headers.forEach((value, name) => {
-        rawResponse += `${name}: ${value}\r\n`;
+      await browser.runtime.sendMessage({
+        action: 'replay-request',
+        requestData: selectedRequest,
+        rawRequest: requestText,
+        headers: requestHeaders, // 发送编辑后的请求头
+        options: await replayService.loadOptions()
       });
-      rawResponse += `\r\n${responseText}`;
-      
-      // 更新请求状态
-      const updatedRequests = requests.map(r => {
-        if (r.id === selectedRequest.id) {
-          return {
-            ...r,
-            status: 'finished' as const,
-            rawResponse,
-            responseHeaders
-          };
-        }
-        return r;
-      });
-      
-      setRequests(updatedRequests);
-      
     } catch (error) {
-      // 更新请求状态为失败
-      const updatedRequests = requests.map(r => {
-        if (r.id === selectedRequest.id) {
-          return {
-            ...r,
-            status: 'finished' as const,
-            rawResponse: `重放请求失败: ${error instanceof Error ? error.message : String(error)}`
-          };
-        }
-        return r;
-      });
-      
-      setRequests(updatedRequests);
+      alert(`重放请求失败: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
       setPendingRequestIds(prev => {
         const newSet = new Set(prev);
@@ -287,44 +379,6 @@ function App() {
     }
   };
   
-  // 解析请求头数组为对象
-  const headersArrayToObject = (headers: { name: string; value: string }[]): Record<string, string> => {
-    const result: Record<string, string> = {};
-    headers.forEach(h => {
-      if (h.name && h.value) {
-        result[h.name] = h.value;
-      }
-    });
-    return result;
-  };
-  
-  // 解析原始请求
-  const parseRawRequest = (rawRequest: string) => {
-    const lines = rawRequest.replace(/\r/g, '').split('\n');
-    const firstLine = lines.shift() || '';
-    const [method, url] = firstLine.split(' ');
-    
-    const headers: { name: string; value: string }[] = [];
-    let body;
-    let isHeaderSection = true;
-  
-    for (const line of lines) {
-      if (isHeaderSection && line === '') {
-        isHeaderSection = false;
-        continue;
-      }
-      if (isHeaderSection) {
-        const parts = line.split(': ');
-        if (parts.length === 2) {
-          headers.push({ name: parts[0], value: parts[1] });
-        }
-      } else {
-        body = (body ? body + '\n' : '') + line;
-      }
-    }
-    return { method, url, headers, postData: body };
-  };
-
   // AI分析请求
   const analyzeRequest = async () => {
     if (!selectedRequest) return;
@@ -366,7 +420,7 @@ function App() {
   // 处理聊天历史选择
   const handleSelectChat = (requestId: string) => {
     // 找到对应的请求
-    const request = requests.find(r => r.id === requestId);
+    const request = allRequests.find(r => r.id === requestId);
     if (request) {
       setSelectedRequestId(request.id);
       setShowAIDialog(true);
@@ -449,9 +503,19 @@ function App() {
     }
   }, []);
 
-  const handleToggle = () => {
+  const handleToggle = async () => {
     const newState = !isEnabled;
     setIsEnabled(newState); // Provide immediate UI feedback
+    // 当前标签页模式下，开启时以用户正在浏览的标签页为目标
+    if (newState) {
+      const targetSettings = await tabTargetService.loadSettings();
+      if (targetSettings.mode === 'current') {
+        const tab = await tabTargetService.getCurrentTab();
+        if (tab?.id !== undefined) {
+          await tabTargetService.saveSettings({ ...targetSettings, tabIds: [tab.id] });
+        }
+      }
+    }
     browser.storage.local.set({ networkInterceptorEnabled: newState });
     // 移除清空请求的代码，关闭开关时保留数据
     // if (!newState) {
@@ -469,6 +533,12 @@ function App() {
     browser.runtime.sendMessage({ action: 'set-mode', mode: newMode });
   };
 
+  // 切换是否拦截响应
+  const handleInterceptResponsesChange = (enabled: boolean) => {
+    setInterceptResponses(enabled);
+    browser.storage.local.set({ networkInterceptorInterceptResponses: enabled });
+  };
+
   const handleRequestTextChange = (newText: string) => {
     if (!selectedRequest) return;
     const nextRequests = requests.map(r => 
@@ -483,6 +553,10 @@ function App() {
     setRequestText(req.rawRequest);
     // 设置请求头
     setRequestHeaders(req.requestHeaders || []);
+    setShowForwardDiff(false);
+    // 设置响应编辑器内容
+    setResponseText(req.rawResponse || '');
+    setResponseEditId(req.id);
     // 清除搜索状态
     setSearchInputValue('');
     setSearchQuery('');
@@ -513,9 +587,28 @@ function App() {
     setRequestHeaders(newHeaders);
   };
 
+  // 选中的请求在响应阶段暂停时，加载响应到编辑器
+  const isResponsePaused = selectedRequest?.status === 'paused' && selectedRequest.pausedStage === 'response';
+  useEffect(() => {
+    if (selectedRequest && isResponsePaused && responseEditId !== selectedRequest.id) {
+      setResponseText(selectedRequest.rawResponse || '');
+      setResponseEditId(selectedRequest.id);
+    }
+  }, [selectedRequest, isResponsePaused, responseEditId]);
+
   const handleResume = () => {
     if (!selectedRequest || selectedRequest.status !== 'paused') return;
     setPendingRequestIds(prev => new Set(prev).add(selectedRequest.id));
+    if (selectedRequest.pausedStage === 'response') {
+      browser.runtime.sendMessage({
+        action: 'resume-response',
+        requestData: selectedRequest,
+        rawResponse: responseText, // 发送编辑后的响应
+      });
+      return;
+    }
+    // 请求放行后可能再次在响应阶段暂停，届时重新加载响应编辑器
+    setResponseEditId(null);
     browser.runtime.sendMessage({
       action: 'resume-request',
       requestData: selectedRequest,
@@ -524,6 +617,28 @@ function App() {
     });
   };
   
+  // 丢弃选中的暂停请求
+  const handleDrop = () => {
+    if (!selectedRequest || selectedRequest.status !== 'paused') return;
+    setPendingRequestIds(prev => new Set(prev).add(selectedRequest.id));
+    browser.runtime.sendMessage({
+      action: 'drop-request',
+      requestData: selectedRequest,
+      errorReason: dropReason,
+    });
+  };
+
+  // 批量放行或丢弃所有暂停中的请求
+  const handleBulkAction = (action: 'forward-all' | 'drop-all') => {
+    const pausedIds = requests.filter(r => r.status === 'paused').map(r => r.id);
+    if (pausedIds.length === 0) return;
+    if (action === 'drop-all' && !window.confirm(`确定要丢弃全部 ${pausedIds.length} 个未放行的请求吗？`)) return;
+    setPendingRequestIds(prev => new Set([...prev, ...pausedIds]));
+    browser.runtime.sendMessage({ action, errorReason: dropReason });
+  };
+
+  const pausedCount = useMemo(() => requests.filter(r => r.status === 'paused').length, [requests]);
+
   const isActionInProgress = replayingId !== null;
   const isSelectedPending = selectedRequest ? pendingRequestIds.has(selectedRequest.id) : false;
 
@@ -532,8 +647,12 @@ function App() {
     const requestIds = requests.map(req => req.id);
     
     browser.runtime.sendMessage({ action: 'clear-requests' });
+    liveRequestsRef.current = [];
     setRequests([]);
+    setHistoryRequests([]);
+    setHasMoreHistory(false);
     setSelectedRequestId(null);
+    setMarkedRequestIds(new Set());
     
     // 不清空聊天历史，只发送清除请求
     // aiService.clearAllChatHistory()
@@ -541,27 +660,84 @@ function App() {
     //   .catch(err => console.error('清空聊天历史失败:', err));
   };
 
+  // 从历史库按时间倒序分页加载更早的请求
+  async function loadHistoryPage(before?: number) {
+    setIsLoadingHistory(true);
+    try {
+      const page = await historyService.getRequests({ before, limit: HISTORY_PAGE_SIZE }) as InterceptedRequest[];
+      // 历史中的暂停和等待中的请求已随后台重启失效，按已完成显示
+      const normalized = page.reverse().map(r => r.status === 'paused' || r.status === 'pending'
+        ? { ...r, status: 'finished' as const, pausedStage: undefined }
+        : r);
+      setHistoryRequests(prev => {
+        const existingIds = new Set(prev.map(r => r.id));
+        return [...normalized.filter(r => !existingIds.has(r.id)), ...prev];
+      });
+      setHasMoreHistory(page.length === HISTORY_PAGE_SIZE);
+    } catch (error) {
+      console.error('加载请求历史失败:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }
+
+  const handleLoadMoreHistory = () => {
+    const oldest = allRequests.reduce<number | undefined>((min, r) =>
+      r.timestamp !== undefined && (min === undefined || r.timestamp < min) ? r.timestamp : min, undefined);
+    loadHistoryPage(oldest);
+  };
+
   // Extract unique request methods for the filter buttons
   const availableMethods = useMemo(() => {
-    const methods = new Set(requests.map(r => r.request.method.toUpperCase()));
+    const methods = new Set(allRequests.map(r => r.request.method.toUpperCase()));
     return ['ALL', ...Array.from(methods)];
-  }, [requests]);
+  }, [allRequests]);
   
   // **Updated**: Filtering logic now includes method filter
+  // 切换请求的多选标记
+  const handleToggleMarked = (requestId: string) => {
+    setMarkedRequestIds(prev => {
+      const next = new Set(prev);
+      if (next.has(requestId)) {
+        next.delete(requestId);
+      } else {
+        next.add(requestId);
+      }
+      return next;
+    });
+  };
+
+  // 导出选中的请求：优先使用多选标记，否则使用当前选中的请求
+  const exportSelection = useMemo(() => {
+    if (markedRequestIds.size > 0) {
+      return allRequests.filter(r => markedRequestIds.has(r.id));
+    }
+    return selectedRequest ? [selectedRequest] : [];
+  }, [allRequests, markedRequestIds, selectedRequest]);
+
+  // HAR导入的请求已写入历史库，按时间顺序并入历史列表
+  const handleHarImported = (entries: HistoryEntry[]) => {
+    setHistoryRequests(prev =>
+      [...prev, ...(entries as InterceptedRequest[])].sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
+    );
+  };
+
   const filteredRequests = useMemo(() => {
-    return requests.filter(req => {
+    return allRequests.filter(req => {
       const statusMatch = (filter === 'all') || (req.status === filter);
       const methodMatch = (methodFilter === 'ALL') || (req.request.method.toUpperCase() === methodFilter);
       return statusMatch && methodMatch;
     });
-  }, [requests, filter, methodFilter]);
+  }, [allRequests, filter, methodFilter]);
 
   // 响应文本值
   const responseTextValue = useMemo(() => {
     if (!selectedRequest) return '';
     if (pendingRequestIds.has(selectedRequest.id) || replayingId === selectedRequest.id) {
         return '正在等待响应...';
-    } else if (selectedRequest.status === 'finished') {
+    } else if (selectedRequest.status === 'pending') {
+        return '正在等待响应...';
+    } else if (selectedRequest.status === 'finished' || selectedRequest.status === 'failed') {
         return selectedRequest.rawResponse || '响应体为空';
     } else {
         return '请求尚未放行...';
@@ -818,6 +994,17 @@ function App() {
                   <span>代理模式</span>
                 </button>
               </div>
+              {mode === 'intercept' && (
+                <label className="intercept-response-toggle" title="在响应阶段暂停，可修改状态码、响应头和响应体后放行">
+                  <input
+                    type="checkbox"
+                    checked={interceptResponses}
+                    onChange={e => handleInterceptResponsesChange(e.target.checked)}
+                  />
+                  <span>拦截响应</span>
+                </label>
+              )}
+              <TabTargetPicker />
               <label className="switch">
                   <input type="checkbox" checked={isEnabled} onChange={handleToggle} />
                   <span className="slider round"></span>
@@ -852,6 +1039,54 @@ function App() {
             <FiActivity size={16} />
             <span>请求分析</span>
           </button>
+          <button 
+            className={activeTab === 'capture' ? 'active' : ''}
+            onClick={() => setActiveTab('capture')}
+            title="抓包设置"
+          >
+            <FiSliders size={16} />
+            <span>抓包设置</span>
+          </button>
+          <button 
+            className={activeTab === 'traffic' ? 'active' : ''}
+            onClick={() => setActiveTab('traffic')}
+            title="流量规则"
+          >
+            <FiRepeat size={16} />
+            <span>流量规则</span>
+          </button>
+          <button 
+            className={activeTab === 'repeater' ? 'active' : ''}
+            onClick={() => setActiveTab('repeater')}
+            title="多标签页重放请求，保留每次发送的记录"
+          >
+            <FiCornerUpRight size={16} />
+            <span>重放器</span>
+          </button>
+          <button 
+            className={activeTab === 'intruder' ? 'active' : ''}
+            onClick={() => setActiveTab('intruder')}
+            title="标记载荷位置，批量发送并比较响应"
+          >
+            <FiCrosshair size={16} />
+            <span>测试器</span>
+          </button>
+          <button 
+            className={activeTab === 'race' ? 'active' : ''}
+            onClick={() => setActiveTab('race')}
+            title="同时发送多个请求副本，测试竞争条件"
+          >
+            <FiZap size={16} />
+            <span>竞争测试</span>
+          </button>
+          <button 
+            className={activeTab === 'websocket' ? 'active' : ''}
+            onClick={() => setActiveTab('websocket')}
+            title="WebSocket消息重放"
+          >
+            <FiSend size={16} />
+            <span>WS重放</span>
+          </button>
           <button 
             className={activeTab === 'regex' ? 'active' : ''}
             onClick={() => setActiveTab('regex')}
@@ -905,6 +1140,25 @@ function App() {
                 </button>
               </div>
               
+              <HarActions
+                selectedRequests={exportSelection}
+                filteredRequests={filteredRequests}
+                liveRequests={requests}
+                onImported={handleHarImported}
+              />
+
+              {mode === 'intercept' && pausedCount > 0 && (
+                <div className="bulk-actions">
+                  <span>{pausedCount} 个未放行</span>
+                  <button onClick={() => handleBulkAction('forward-all')} title="原样放行所有未放行的请求">
+                    <FiPlay size={12} /><span>全部放行</span>
+                  </button>
+                  <button onClick={() => handleBulkAction('drop-all')} title="以所选错误原因丢弃所有未放行的请求">
+                    <FiSlash size={12} /><span>全部丢弃</span>
+                  </button>
+                </div>
+              )}
+
               {/* Method filter bar */}
               <div className="method-filter-tabs">
                 {availableMethods.map(method => (
@@ -919,21 +1173,56 @@ function App() {
               </div>
     
               <div className="request-list">
+                {hasMoreHistory && (
+                  <button className="load-history-button" onClick={handleLoadMoreHistory} disabled={isLoadingHistory}>
+                    {isLoadingHistory ? <FiLoader className="spinning" /> : <FiClock />}
+                    <span>加载更早的历史请求</span>
+                  </button>
+                )}
                 {filteredRequests.map((req) => {
                   const isPending = pendingRequestIds.has(req.id);
                   return (
                     <div
                       key={req.id}
-                      className={`request-item ${selectedRequestId === req.id ? 'selected' : ''}`}
-                      onClick={() => handleSelectRequest(req)}
+                      className={`request-item ${selectedRequestId === req.id ? 'selected' : ''} ${markedRequestIds.has(req.id) ? 'marked' : ''}`}
+                      onClick={(e) => e.ctrlKey || e.metaKey ? handleToggleMarked(req.id) : handleSelectRequest(req)}
                     >
+                      {req.imported && <span className="imported-icon" title="从HAR导入"><FiArchive /></span>}
                       {req.isRedirect && <span className="redirect-icon"><FiChevronsRight /></span>}
-                      <span className={`method ${req.request.method.toLowerCase()}`}>{req.request.method}</span>
+                      {req.mappedUrl && <span className="mapped-icon" title={`已映射到 ${req.mappedUrl}`}><FiShuffle /></span>}
+                      {req.replayOf && <span className="replay-icon" title="重放产生的请求"><FiRefreshCw /></span>}
+                      {req.passive && (
+                        <span className="passive-tag" title="调试器无法附加，通过webRequest被动捕获：没有响应体，不能拦截">被动</span>
+                      )}
+                      {req.targetOrigin && (
+                        <span className="target-origin" title={`来自${req.targetOrigin.type} ${req.targetOrigin.url}`}>
+                          {TARGET_TYPE_LABELS[req.targetOrigin.type] || req.targetOrigin.type}
+                        </span>
+                      )}
+                      {req.eventStream && (
+                        <span className="stream-icon" title={`流式响应，${req.eventStream.events.length} 个事件`}><FiActivity /></span>
+                      )}
+                      {req.webSocket
+                        ? <span className={`method ws ${req.webSocket.state}`} title={`WebSocket，${req.webSocket.frames.length} 帧`}>WS</span>
+                        : <span className={`method ${req.request.method.toLowerCase()}`}>{req.request.method}</span>}
                       <span className="url" title={req.request.url}>{req.request.url}</span>
-                      <span className={`status ${req.status}`}>
+                      <span className="network-column protocol" title="协议">{req.network?.protocol || ''}</span>
+                      <span className="network-column remote" title={req.network?.remoteAddress ? `远程地址 ${req.network.remoteAddress}` : undefined}>
+                        {req.network?.remoteAddress || ''}
+                      </span>
+                      <span className="network-column size" title="传输大小">{req.network ? formatBytes(req.network.encodedDataLength) : ''}</span>
+                      <span className="network-column time" title="总耗时">{req.network ? formatDuration(req.network.timing?.total) : ''}</span>
+                      <span
+                        className={`status ${req.status}`}
+                        title={req.status === 'paused' ? (req.pausedStage === 'response' ? '响应未放行' : '请求未放行') : undefined}
+                      >
                         {isPending ? <FiLoader className="spinning" /> : 
                          replayingId === req.id ? <FiLoader className="spinning" /> : 
-                         req.status === 'paused' ? <FiAlertTriangle /> : <FiCheckCircle />}
+                         req.status === 'paused' ? <FiAlertTriangle /> :
+                         req.status === 'pending' ? <FiLoader className="spinning" title="等待响应" /> :
+                         req.status === 'failed' ? <FiXCircle className="dropped" title={req.rawResponse} /> :
+                         req.droppedReason ? <FiXCircle className="dropped" title={`已丢弃 (${req.droppedReason})`} /> :
+                         req.mapLocalRule ? <FiHardDrive className="mocked" title={`本地响应 (${req.mapLocalRule})`} /> : <FiCheckCircle />}
                       </span>
                     </div>
                   );
@@ -965,19 +1254,88 @@ function App() {
                             <FiEye size={14} />
                             <span>{showHeadersEditor ? "隐藏请求头" : "编辑请求头"}</span>
                         </button>
+                        {selectedRequest?.forwardedRequest && (
+                          <button
+                              onClick={() => setShowForwardDiff(!showForwardDiff)}
+                              title="对比浏览器原始请求与实际放行的请求"
+                          >
+                              <FiColumns size={14} />
+                              <span>{showForwardDiff ? "返回编辑" : "修改对比"}</span>
+                          </button>
+                        )}
                         <button 
                             onClick={handleReplay}
-                            disabled={!selectedRequest || isActionInProgress || isSelectedPending}
+                            disabled={!selectedRequest || !!selectedRequest.webSocket || isActionInProgress || isSelectedPending}
                         >
                             <FiRefreshCw size={14} className={replayingId === selectedRequest?.id ? 'spinning' : ''} />
                             <span>{replayingId === selectedRequest?.id ? '重放中...' : '重放'}</span>
                         </button>
+                        <button
+                            onClick={() => {
+                              if (!selectedRequest) return;
+                              setRepeaterDraft({
+                                rawRequest: requestText,
+                                url: selectedRequest.request.url,
+                                method: selectedRequest.request.method,
+                                tabId: selectedRequest.tabId
+                              });
+                              setActiveTab('repeater');
+                            }}
+                            disabled={!selectedRequest || !!selectedRequest.webSocket}
+                            title="发送到重放器的新标签页，保留每次发送的记录"
+                        >
+                            <FiCornerUpRight size={14} />
+                            <span>发送到重放器</span>
+                        </button>
+                        <button
+                            onClick={() => {
+                              if (!selectedRequest) return;
+                              setIntruderDraft({ rawRequest: requestText, tabId: selectedRequest.tabId });
+                              setActiveTab('intruder');
+                            }}
+                            disabled={!selectedRequest || !!selectedRequest.webSocket}
+                            title="发送到测试器，用§标记载荷位置后批量发送"
+                        >
+                            <FiCrosshair size={14} />
+                            <span>发送到测试器</span>
+                        </button>
+                        <button
+                            onClick={() => {
+                              if (!selectedRequest) return;
+                              setRaceDraft({ rawRequest: requestText, tabId: selectedRequest.tabId });
+                              setActiveTab('race');
+                            }}
+                            disabled={!selectedRequest || !!selectedRequest.webSocket}
+                            title="同时发送多个副本，测试优惠券复用、重复扣款等竞争条件"
+                        >
+                            <FiZap size={14} />
+                            <span>竞争测试</span>
+                        </button>
                         <button 
                             onClick={handleResume} 
                             disabled={!selectedRequest || selectedRequest.status !== 'paused' || isActionInProgress || isSelectedPending || mode === 'proxy'}
                         >
                             <FiPlay size={14} />
-                            <span>放行</span>
+                            <span>{isResponsePaused ? '放行响应' : '放行'}</span>
+                        </button>
+                        <select
+                            className="drop-reason-select"
+                            value={dropReason}
+                            onChange={e => setDropReason(e.target.value)}
+                            disabled={mode === 'proxy'}
+                            title="丢弃请求时返回给页面的网络错误"
+                        >
+                            {DROP_ERROR_REASONS.map(reason => (
+                              <option key={reason.value} value={reason.value}>{reason.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleDrop}
+                            disabled={!selectedRequest || selectedRequest.status !== 'paused' || isActionInProgress || isSelectedPending || mode === 'proxy'}
+                            title="以所选错误原因终止该请求"
+                        >
+                            <FiSlash size={14} />
+                            <span>丢弃</span>
                         </button>
                         <button
                             onClick={analyzeRequest}
@@ -1031,15 +1389,43 @@ function App() {
                   </div>
                 )}
                 
-                <textarea
-                  value={requestText}
-                  onChange={(e) => setRequestText(e.target.value)}
-                  disabled={!selectedRequest || pendingRequestIds.has(selectedRequest.id) || isActionInProgress}
-                />
+                {showForwardDiff && selectedRequest?.forwardedRequest ? (
+                  <RequestDiffView
+                    original={{
+                      method: selectedRequest.request.method,
+                      url: selectedRequest.request.url,
+                      headers: headersToArray(selectedRequest.request.headers),
+                      postData: selectedRequest.request.postData
+                    }}
+                    forwarded={selectedRequest.forwardedRequest}
+                  />
+                ) : (
+                  <textarea
+                    value={requestText}
+                    onChange={(e) => setRequestText(e.target.value)}
+                    disabled={!selectedRequest || pendingRequestIds.has(selectedRequest.id) || isActionInProgress}
+                  />
+                )}
               </div>
               <div className="response-panel">
                 <div className="panel-header">
-                    <h3>响应</h3>
+                    <h3>{selectedRequest?.webSocket ? 'WebSocket' : '响应'}</h3>
+                    <button
+                      className={`network-details-toggle ${showNetworkDetails ? 'active' : ''}`}
+                      onClick={() => setShowNetworkDetails(!showNetworkDetails)}
+                      title="显示耗时、大小、远程地址和TLS信息"
+                    >
+                      <FiInfo size={14} />
+                      <span>网络信息</span>
+                    </button>
+                    <div className="response-view-tabs">
+                      <button className={responseView === 'text' ? 'active' : ''} onClick={() => setResponseView('text')}>文本</button>
+                      <button className={responseView === 'hex' ? 'active' : ''} onClick={() => setResponseView('hex')}>十六进制</button>
+                      <button className={responseView === 'preview' ? 'active' : ''} onClick={() => setResponseView('preview')}>预览</button>
+                      <button onClick={handleSaveResponseBody} disabled={!responseBody} title="保存响应体到文件">
+                        <FiSave size={14} />
+                      </button>
+                    </div>
                     
                     {/* 响应大小提示 */}
                     {showResponseWarning && isResponseTooLarge && selectedRequest && (
@@ -1107,6 +1493,30 @@ function App() {
                         )}
                     </div>
                 </div>
+                {showNetworkDetails && selectedRequest && (
+                  <NetworkDetails network={selectedRequest.network} />
+                )}
+                {selectedRequest?.webSocket ? (
+                  <WebSocketFrames
+                    url={selectedRequest.request.url}
+                    info={selectedRequest.webSocket}
+                    onSendToRepeater={frame => {
+                      setWsRepeaterDraft({ connectionId: selectedRequest.id, payload: frame.payloadData, opcode: frame.opcode });
+                      setActiveTab('websocket');
+                    }}
+                  />
+                ) : selectedRequest?.eventStream ? (
+                  <EventStreamEvents info={selectedRequest.eventStream} />
+                ) : isResponsePaused ? (
+                  <textarea
+                    value={responseText}
+                    onChange={(e) => setResponseText(e.target.value)}
+                    disabled={isSelectedPending}
+                    title="编辑状态行、响应头和响应体后点击“放行响应”"
+                  />
+                ) : responseView !== 'text' && responseBody ? (
+                  <ResponseBodyView mode={responseView} bytes={responseBody.bytes} mimeType={responseBody.mimeType} />
+                ) : (
                 <div className="response-body" ref={responseBodyRef}>
                     {renderedResponse.map((part, i) => {
                         if (part.type === 'match') {
@@ -1123,10 +1533,27 @@ function App() {
                         return filterToMatches ? null : <span key={i}>{part.content}</span>;
                     })}
                 </div>
+                )}
               </div>
             </div>
           </div>
-                 ) : activeTab === 'fingerprint' ? (
+                 ) : activeTab === 'capture' ? (
+           <CaptureSettings darkMode={isDarkMode} />
+         ) : activeTab === 'traffic' ? (
+           <TrafficRules darkMode={isDarkMode} />
+         ) : activeTab === 'repeater' ? (
+           <Repeater draft={repeaterDraft} onDraftConsumed={() => setRepeaterDraft(null)} />
+         ) : activeTab === 'intruder' ? (
+           <Intruder draft={intruderDraft} onDraftConsumed={() => setIntruderDraft(null)} />
+         ) : activeTab === 'race' ? (
+           <RaceTester draft={raceDraft} onDraftConsumed={() => setRaceDraft(null)} />
+         ) : activeTab === 'websocket' ? (
+           <WebSocketRepeater
+             connections={webSocketConnections}
+             draft={wsRepeaterDraft}
+             onDraftConsumed={() => setWsRepeaterDraft(null)}
+           />
+         ) : activeTab === 'fingerprint' ? (
            <FingerprintDetector darkMode={isDarkMode} />
          ) : activeTab === 'regex' ? (
            <RegexManager darkMode={isDarkMode} />
@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import {
+  CaptureSettings as CaptureSettingsType,
+  CAPTURE_RESOURCE_TYPES,
+  DEFAULT_CAPTURE_SETTINGS,
+  captureService
+} from '../services/capture-service';
+import {
+  FiCheckCircle,
+  FiPlus,
+  FiTrash2,
+  FiLayers,
+  FiLink,
+  FiTarget,
+  FiPauseCircle,
+  FiDatabase
+} from 'react-icons/fi';
+import ScopeSettings from './ScopeSettings';
+import InterceptRuleSettings from './InterceptRuleSettings';
+import HistorySettings from './HistorySettings';
+import '../styles/CaptureSettings.css';
+
+interface CaptureSettingsProps {
+  darkMode?: boolean;
+}
+
+type CaptureSection = 'resources' | 'scope' | 'intercept' | 'history';
+
+const CaptureSettings: React.FC<CaptureSettingsProps> = ({ darkMode = false }) => {
+  const [activeSection, setActiveSection] = useState<CaptureSection>('resources');
+  const [settings, setSettings] = useState<CaptureSettingsType>(DEFAULT_CAPTURE_SETTINGS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // 加载设置
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    try {
+      const loadedSettings = await captureService.loadSettings();
+      setSettings(loadedSettings);
+    } catch (error) {
+      console.error('加载抓包设置失败:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 切换资源类型
+  const toggleResourceType = (resourceType: string) => {
+    setSettings(prev => ({
+      ...prev,
+      resourceTypes: prev.resourceTypes.includes(resourceType)
+        ? prev.resourceTypes.filter(t => t !== resourceType)
+        : [...prev.resourceTypes, resourceType]
+    }));
+  };
+
+  // 添加URL通配符
+  const addUrlPattern = () => {
+    setSettings(prev => ({ ...prev, urlPatterns: [...prev.urlPatterns, ''] }));
+  };
+
+  // 更新URL通配符
+  const updateUrlPattern = (index: number, value: string) => {
+    const newPatterns = [...settings.urlPatterns];
+    newPatterns[index] = value;
+    setSettings(prev => ({ ...prev, urlPatterns: newPatterns }));
+  };
+
+  // 删除URL通配符
+  const removeUrlPattern = (index: number) => {
+    const newPatterns = [...settings.urlPatterns];
+    newPatterns.splice(index, 1);
+    setSettings(prev => ({ ...prev, urlPatterns: newPatterns }));
+  };
+
+  // 保存设置
+  const handleSave = async () => {
+    if (settings.resourceTypes.length === 0) {
+      alert('请至少选择一种资源类型');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const cleanedSettings = {
+        ...settings,
+        urlPatterns: settings.urlPatterns.map(p => p.trim()).filter(p => p !== '')
+      };
+      await captureService.saveSettings(cleanedSettings);
+      setSettings(cleanedSettings);
+      alert('抓包设置已保存，并已应用到所有已附加的标签页');
+    } catch (error) {
+      console.error('保存抓包设置失败:', error);
+      alert('保存抓包设置失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 渲染资源类型与阶段设置
+  const renderResourcesSection = () => (
+    <div className="capture-section">
+      <h3>
+        <FiLayers size={18} />
+        <span>资源类型</span>
+      </h3>
+      <p className="capture-description">只有选中的资源类型会被捕获和拦截，其余请求直接放行</p>
+      <div className="resource-type-grid">
+        {CAPTURE_RESOURCE_TYPES.map(type => (
+          <label key={type.value} className="resource-type-item" title={type.value}>
+            <input
+              type="checkbox"
+              checked={settings.resourceTypes.includes(type.value)}
+              onChange={() => toggleResourceType(type.value)}
+            />
+            <span>{type.label}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="form-group checkbox-group">
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.captureResponseStage}
+            onChange={e => setSettings(prev => ({ ...prev, captureResponseStage: e.target.checked }))}
+          />
+          <span>捕获响应阶段（读取响应体；关闭后无法查看或拦截响应）</span>
+        </label>
+      </div>
+
+      <h3>
+        <FiLink size={18} />
+        <span>URL通配符</span>
+      </h3>
+      <p className="capture-description">可选，支持 * 和 ? 通配符（如 *://api.example.com/*），留空时匹配全部URL</p>
+      {settings.urlPatterns.map((pattern, index) => (
+        <div key={index} className="capture-list-item">
+          <input
+            type="text"
+            value={pattern}
+            onChange={e => updateUrlPattern(index, e.target.value)}
+            placeholder="例如：*://*.example.com/api/*"
+          />
+          <button onClick={() => removeUrlPattern(index)} title="删除通配符" className="icon-button">
+            <FiTrash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <button onClick={addUrlPattern} className="action-button">
+        <FiPlus size={14} /> 添加通配符
+      </button>
+
+      <div className="form-actions">
+        <button className="save-button" onClick={handleSave} disabled={isSaving} title="保存抓包设置">
+          {isSaving ? '保存中...' : (
+            <>
+              <FiCheckCircle size={16} /> 保存设置
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return <div className="loading">加载中...</div>;
+  }
+
+  return (
+    <div className={`capture-settings ${darkMode ? 'dark' : ''}`}>
+      <div className="capture-tabs">
+        <div
+          className={`capture-tab ${activeSection === 'resources' ? 'active' : ''}`}
+          onClick={() => setActiveSection('resources')}
+        >
+          <FiLayers size={16} />
+          <span>资源类型</span>
+        </div>
+        <div
+          className={`capture-tab ${activeSection === 'scope' ? 'active' : ''}`}
+          onClick={() => setActiveSection('scope')}
+        >
+          <FiTarget size={16} />
+          <span>目标范围</span>
+        </div>
+        <div
+          className={`capture-tab ${activeSection === 'intercept' ? 'active' : ''}`}
+          onClick={() => setActiveSection('intercept')}
+        >
+          <FiPauseCircle size={16} />
+          <span>拦截规则</span>
+        </div>
+        <div
+          className={`capture-tab ${activeSection === 'history' ? 'active' : ''}`}
+          onClick={() => setActiveSection('history')}
+        >
+          <FiDatabase size={16} />
+          <span>历史记录</span>
+        </div>
+      </div>
+
+      <div className="capture-content">
+        {activeSection === 'resources' && renderResourcesSection()}
+        {activeSection === 'scope' && <ScopeSettings />}
+        {activeSection === 'intercept' && <InterceptRuleSettings />}
+        {activeSection === 'history' && <HistorySettings />}
+      </div>
+    </div>
+  );
+};
+
+export default CaptureSettings;
@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import { EventStreamInfo, mergeStreamText } from '../services/event-stream-service';
+
+interface EventStreamEventsProps {
+  info: EventStreamInfo;
+}
+
+// 事件数据为JSON时格式化显示
+const formatData = (data: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2);
+  } catch {
+    return data;
+  }
+};
+
+// 流式响应（SSE/NDJSON）的事件列表
+const EventStreamEvents: React.FC<EventStreamEventsProps> = ({ info }) => {
+  const [query, setQuery] = useState('');
+  const [showMerged, setShowMerged] = useState(false);
+  const [selectedEventId, setSelectedEventId] = useState<number | null>(null);
+
+  const visibleEvents = useMemo(() => {
+    const lowerQuery = query.toLowerCase();
+    return lowerQuery
+      ? info.events.filter(e => e.data.toLowerCase().includes(lowerQuery) || e.event?.toLowerCase().includes(lowerQuery))
+      : info.events;
+  }, [info.events, query]);
+  const mergedText = useMemo(() => showMerged ? mergeStreamText(info.events) : '', [showMerged, info.events]);
+  const selectedEvent = info.events.find(e => e.id === selectedEventId) || null;
+  const startTime = info.events[0]?.time || 0;
+
+  return (
+    <div className="event-stream">
+      <div className="event-stream-toolbar">
+        <span className={`websocket-state ${info.state === 'open' ? 'open' : 'closed'}`}>
+          {info.state === 'open' ? '接收中' : '已结束'}
+        </span>
+        <span className="event-stream-format">{info.format === 'sse' ? 'SSE' : 'NDJSON'}</span>
+        <input
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="搜索事件..."
+        />
+        <label className="regex-label" title="合并LLM流式接口返回的增量文本">
+          <input type="checkbox" checked={showMerged} onChange={e => setShowMerged(e.target.checked)} />
+          <span>合并文本</span>
+        </label>
+        <span className="websocket-count">
+          {visibleEvents.length}/{info.events.length}
+          {info.droppedEvents > 0 && ` (已丢弃 ${info.droppedEvents} 个早期事件)`}
+        </span>
+      </div>
+
+      {showMerged ? (
+        <pre className="event-stream-merged">{mergedText || '没有可合并的增量文本'}</pre>
+      ) : (
+        <div className="event-stream-list">
+          {visibleEvents.length === 0 && <div className="event-stream-empty">暂无事件</div>}
+          {visibleEvents.map(event => (
+            <div
+              key={event.id}
+              className={`event-stream-item ${event.id === selectedEventId ? 'selected' : ''}`}
+              onClick={() => setSelectedEventId(event.id)}
+            >
+              <span className="event-time" title={new Date(event.time).toLocaleString()}>
+                {new Date(event.time).toLocaleTimeString()} +{event.time - startTime}ms
+              </span>
+              <span className="event-name">{event.event || 'message'}</span>
+              {event.eventId && <span className="event-id">#{event.eventId}</span>}
+              <span className="event-data">{event.data.substring(0, 200)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!showMerged && selectedEvent && (
+        <pre className="event-stream-detail">{formatData(selectedEvent.data)}</pre>
+      )}
+    </div>
+  );
+};
+
+export default EventStreamEvents;
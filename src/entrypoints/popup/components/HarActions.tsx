@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { FiDownload, FiUpload } from 'react-icons/fi';
+import { HistoryEntry, historyService } from '../services/history-service';
+import { buildHar, parseHar, downloadHar } from '../services/har-service';
+
+type ExportScope = 'selected' | 'filtered' | 'all';
+
+interface HarActionsProps {
+  selectedRequests: HistoryEntry[];
+  filteredRequests: HistoryEntry[];
+  liveRequests: HistoryEntry[];
+  onImported: (entries: HistoryEntry[]) => void;
+}
+
+// HAR导出与导入
+const HarActions: React.FC<HarActionsProps> = ({ selectedRequests, filteredRequests, liveRequests, onImported }) => {
+  const [exportScope, setExportScope] = useState<ExportScope>('filtered');
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 导出HAR
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      let entries: HistoryEntry[];
+      if (exportScope === 'selected') {
+        entries = selectedRequests;
+      } else if (exportScope === 'filtered') {
+        entries = filteredRequests;
+      } else {
+        // 全部历史：历史库中的请求加上尚未写入的实时请求
+        const history = await historyService.getRequests({ limit: Number.MAX_SAFE_INTEGER });
+        const liveIds = new Set(liveRequests.map(r => r.id));
+        entries = [...history.filter(r => !liveIds.has(r.id)), ...liveRequests];
+      }
+
+      if (entries.length === 0) {
+        alert('没有可导出的请求');
+        return;
+      }
+      const date = new Date().toISOString().replace(/[:.]/g, '-');
+      downloadHar(buildHar(entries), `fastburp-${date}.har`);
+    } catch (error) {
+      console.error('导出HAR失败:', error);
+      alert('导出HAR失败');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // 导入HAR
+  const handleImport = async (file?: File) => {
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const entries = parseHar(await file.text());
+      await historyService.putRequests(entries);
+      onImported(entries);
+      alert(`已导入 ${entries.length} 个请求`);
+    } catch (error) {
+      console.error('导入HAR失败:', error);
+      alert(`导入HAR失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="har-actions">
+      <select
+        value={exportScope}
+        onChange={e => setExportScope(e.target.value as ExportScope)}
+        title="导出范围"
+      >
+        <option value="selected">选中的请求 ({selectedRequests.length})</option>
+        <option value="filtered">当前列表 ({filteredRequests.length})</option>
+        <option value="all">全部历史</option>
+      </select>
+      <button onClick={handleExport} disabled={isWorking} title="导出为HAR 1.2文件">
+        <FiDownload size={12} /><span>导出HAR</span>
+      </button>
+      <button onClick={() => fileInputRef.current?.click()} disabled={isWorking} title="导入HAR文件为只读历史">
+        <FiUpload size={12} /><span>导入HAR</span>
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".har,application/json"
+        style={{ display: 'none' }}
+        onChange={e => {
+          handleImport(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default HarActions;
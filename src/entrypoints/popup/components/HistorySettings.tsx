@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import browser from 'webextension-polyfill';
+import {
+  HistoryRetentionSettings,
+  HistoryStats,
+  DEFAULT_HISTORY_RETENTION_SETTINGS,
+  historyService
+} from '../services/history-service';
+import {
+  FiCheckCircle,
+  FiDatabase,
+  FiRefreshCw,
+  FiTrash2
+} from 'react-icons/fi';
+
+// 格式化大小
+const formatSize = (size: number): string => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const HistorySettings: React.FC = () => {
+  const [settings, setSettings] = useState<HistoryRetentionSettings>(DEFAULT_HISTORY_RETENTION_SETTINGS);
+  const [stats, setStats] = useState<HistoryStats | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 加载设置和统计
+  useEffect(() => {
+    historyService.loadRetentionSettings()
+      .then(setSettings)
+      .catch(error => console.error('加载历史保留策略失败:', error));
+    refreshStats();
+  }, []);
+
+  const refreshStats = () => {
+    historyService.getStats()
+      .then(setStats)
+      .catch(error => console.error('读取历史统计失败:', error));
+  };
+
+  // 更新数值字段
+  const updateField = (field: keyof HistoryRetentionSettings, value: string) => {
+    setSettings(prev => ({ ...prev, [field]: Math.max(0, Number(value) || 0) }));
+  };
+
+  // 保存设置（后台收到变化后立即按新策略清理）
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await historyService.saveRetentionSettings(settings);
+      alert('历史保留策略已保存');
+      setTimeout(refreshStats, 500);
+    } catch (error) {
+      console.error('保存历史保留策略失败:', error);
+      alert('保存历史保留策略失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 清空全部历史
+  const handleClear = async () => {
+    if (!window.confirm('确定要清空全部请求历史吗？')) return;
+    await browser.runtime.sendMessage({ action: 'clear-requests' });
+    refreshStats();
+  };
+
+  return (
+    <div className="capture-section">
+      <h3>
+        <FiDatabase size={18} />
+        <span>请求历史</span>
+      </h3>
+      <p className="capture-description">
+        捕获的请求保存在IndexedDB中，浏览器重启或后台脚本被回收后仍可查看。以下限制填0表示不限制，超出任一限制时优先删除最早的请求
+      </p>
+
+      <div className="capture-list-item">
+        <label className="retention-label">最多保留条数</label>
+        <input
+          type="number"
+          min={0}
+          value={settings.maxCount}
+          onChange={e => updateField('maxCount', e.target.value)}
+        />
+      </div>
+      <div className="capture-list-item">
+        <label className="retention-label" title="导入的HAR记录不按时间清理">最长保留时间 (小时)</label>
+        <input
+          type="number"
+          min={0}
+          value={settings.maxAgeHours}
+          onChange={e => updateField('maxAgeHours', e.target.value)}
+        />
+      </div>
+      <div className="capture-list-item">
+        <label className="retention-label">最大总大小 (MB)</label>
+        <input
+          type="number"
+          min={0}
+          value={settings.maxSizeMB}
+          onChange={e => updateField('maxSizeMB', e.target.value)}
+        />
+      </div>
+
+      <div className="capture-inline-actions">
+        <span className="capture-description">
+          {stats ? `当前共 ${stats.count} 条，约 ${formatSize(stats.totalSize)}` : '正在统计...'}
+        </span>
+        <button onClick={refreshStats} className="action-button" title="刷新统计">
+          <FiRefreshCw size={14} /> 刷新
+        </button>
+        <button onClick={handleClear} className="action-button" title="清空全部请求历史">
+          <FiTrash2 size={14} /> 清空历史
+        </button>
+      </div>
+
+      <div className="form-actions">
+        <button className="save-button" onClick={handleSave} disabled={isSaving} title="保存历史保留策略">
+          {isSaving ? '保存中...' : (
+            <>
+              <FiCheckCircle size={16} /> 保存设置
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HistorySettings;
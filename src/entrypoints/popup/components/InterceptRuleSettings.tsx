@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import {
+  InterceptRuleSettings as InterceptRuleSettingsType,
+  InterceptRule,
+  InterceptCondition,
+  InterceptConditionField,
+  DEFAULT_INTERCEPT_RULE_SETTINGS,
+  interceptRuleService
+} from '../services/intercept-rule-service';
+import {
+  FiCheckCircle,
+  FiPlus,
+  FiTrash2,
+  FiPauseCircle,
+  FiX
+} from 'react-icons/fi';
+
+// 条件字段说明
+const conditionFieldOptions: { value: InterceptConditionField; label: string; placeholder: string }[] = [
+  { value: InterceptConditionField.METHOD, label: '请求方法', placeholder: 'POST,PUT,DELETE' },
+  { value: InterceptConditionField.URL, label: 'URL正则', placeholder: '/api/.*' },
+  { value: InterceptConditionField.HEADER, label: '请求头', placeholder: '值包含（留空表示存在即可）' },
+  { value: InterceptConditionField.BODY, label: '请求体包含', placeholder: 'password' },
+  { value: InterceptConditionField.EXTENSION, label: '文件扩展名', placeholder: 'php,jsp,aspx' }
+];
+
+const InterceptRuleSettings: React.FC = () => {
+  const [settings, setSettings] = useState<InterceptRuleSettingsType>(DEFAULT_INTERCEPT_RULE_SETTINGS);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 加载设置
+  useEffect(() => {
+    interceptRuleService.loadSettings()
+      .then(setSettings)
+      .catch(error => console.error('加载拦截规则失败:', error));
+  }, []);
+
+  // 更新规则
+  const updateRule = (ruleId: string, updates: Partial<InterceptRule>) => {
+    setSettings(prev => ({
+      ...prev,
+      rules: prev.rules.map(rule => rule.id === ruleId ? { ...rule, ...updates } : rule)
+    }));
+  };
+
+  // 更新条件
+  const updateCondition = (rule: InterceptRule, conditionId: string, updates: Partial<InterceptCondition>) => {
+    updateRule(rule.id, {
+      conditions: rule.conditions.map(c => c.id === conditionId ? { ...c, ...updates } : c)
+    });
+  };
+
+  // 删除规则
+  const removeRule = (ruleId: string) => {
+    setSettings(prev => ({ ...prev, rules: prev.rules.filter(rule => rule.id !== ruleId) }));
+  };
+
+  // 保存设置
+  const handleSave = async () => {
+    const invalidCondition = settings.rules
+      .flatMap(rule => rule.conditions)
+      .find(condition => {
+        if (condition.field !== InterceptConditionField.URL) return false;
+        try {
+          new RegExp(condition.value);
+          return false;
+        } catch {
+          return true;
+        }
+      });
+    if (invalidCondition) {
+      alert(`URL正则无效: ${invalidCondition.value}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await interceptRuleService.saveSettings(settings);
+      alert('拦截规则已保存');
+    } catch (error) {
+      console.error('保存拦截规则失败:', error);
+      alert('保存拦截规则失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="capture-section">
+      <div className="form-group checkbox-group">
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={e => setSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+          />
+          <FiPauseCircle size={16} />
+          <span>启用拦截规则（拦截模式下只暂停命中规则的请求，其余自动放行）</span>
+        </label>
+      </div>
+      <p className="capture-description">
+        任意一条启用的规则命中即暂停；规则内的条件按"全部满足"或"任一满足"组合。未启用或没有规则时暂停所有范围内的请求
+      </p>
+
+      {settings.rules.map(rule => (
+        <div key={rule.id} className={`intercept-rule-card ${rule.enabled ? '' : 'disabled'}`}>
+          <div className="intercept-rule-header">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+              title="启用规则"
+            />
+            <input
+              type="text"
+              className="rule-name-input"
+              value={rule.name}
+              onChange={e => updateRule(rule.id, { name: e.target.value })}
+              placeholder="规则名称"
+            />
+            <select
+              value={rule.logic}
+              onChange={e => updateRule(rule.id, { logic: e.target.value as InterceptRule['logic'] })}
+            >
+              <option value="and">全部满足 (AND)</option>
+              <option value="or">任一满足 (OR)</option>
+            </select>
+            <button className="icon-button" onClick={() => removeRule(rule.id)} title="删除规则">
+              <FiTrash2 size={16} />
+            </button>
+          </div>
+
+          {rule.conditions.map(condition => {
+            const fieldOption = conditionFieldOptions.find(option => option.value === condition.field);
+            return (
+              <div key={condition.id} className="capture-list-item">
+                <select
+                  className="condition-field-select"
+                  value={condition.field}
+                  onChange={e => updateCondition(rule, condition.id, { field: e.target.value as InterceptConditionField })}
+                >
+                  {conditionFieldOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {condition.field === InterceptConditionField.HEADER && (
+                  <input
+                    type="text"
+                    value={condition.headerName || ''}
+                    onChange={e => updateCondition(rule, condition.id, { headerName: e.target.value })}
+                    placeholder="请求头名称"
+                  />
+                )}
+                <input
+                  type="text"
+                  value={condition.value}
+                  onChange={e => updateCondition(rule, condition.id, { value: e.target.value })}
+                  placeholder={fieldOption?.placeholder}
+                />
+                <button
+                  className="icon-button"
+                  onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter(c => c.id !== condition.id) })}
+                  title="删除条件"
+                >
+                  <FiX size={16} />
+                </button>
+              </div>
+            );
+          })}
+
+          <button
+            className="add-condition-button"
+            onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, interceptRuleService.createCondition()] })}
+          >
+            <FiPlus size={12} /> 添加条件
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => setSettings(prev => ({ ...prev, rules: [...prev.rules, interceptRuleService.createRule()] }))}
+        className="action-button"
+      >
+        <FiPlus size={14} /> 添加规则
+      </button>
+
+      <div className="form-actions">
+        <button className="save-button" onClick={handleSave} disabled={isSaving} title="保存拦截规则">
+          {isSaving ? '保存中...' : (
+            <>
+              <FiCheckCircle size={16} /> 保存规则
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InterceptRuleSettings;
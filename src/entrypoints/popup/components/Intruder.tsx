@@ -0,0 +1,354 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import browser from 'webextension-polyfill';
+import { FiPlay, FiSquare, FiChevronUp, FiChevronDown } from 'react-icons/fi';
+import {
+  IntruderConfig,
+  IntruderAttackType,
+  IntruderAttackState,
+  IntruderResult,
+  IntruderResultDetail,
+  IntruderDraft,
+  PayloadSet,
+  PayloadSetType,
+  DEFAULT_INTRUDER_CONFIG,
+  ATTACK_TYPE_LABELS,
+  PAYLOAD_SET_TYPE_LABELS,
+  PAYLOAD_MARKER,
+  createPayloadSet,
+  countPayloadPositions,
+  generatePayloads,
+  countAttackRequests,
+  intruderService
+} from '../services/intruder-service';
+import { formatDuration } from '../services/network-info-service';
+import { replayService } from '../services/replay-service';
+import PayloadProcessingChain from './PayloadProcessingChain';
+import '../styles/Intruder.css';
+
+interface IntruderProps {
+  draft: IntruderDraft | null;
+  onDraftConsumed: () => void;
+}
+
+type SortKey = 'index' | 'payloads' | 'statusCode' | 'length' | 'duration' | 'grepMatched' | 'extracted';
+
+// 编辑配置时延迟保存
+const SAVE_DELAY = 500;
+
+const RESULT_COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'index', label: '#' },
+  { key: 'payloads', label: '载荷' },
+  { key: 'statusCode', label: '状态' },
+  { key: 'length', label: '长度' },
+  { key: 'duration', label: '耗时' },
+  { key: 'grepMatched', label: '匹配' },
+  { key: 'extracted', label: '提取' }
+];
+
+const sortValue = (result: IntruderResult, key: SortKey): string | number => {
+  switch (key) {
+    case 'payloads':
+      return result.payloads.join(' | ');
+    case 'statusCode':
+      return result.statusCode ?? -1;
+    case 'grepMatched':
+      return result.grepMatched ? 1 : 0;
+    case 'extracted':
+      return result.extracted || '';
+    default:
+      return result[key];
+  }
+};
+
+// 每个位置使用独立载荷集的攻击类型
+const usesSetPerPosition = (attackType: IntruderAttackType) => attackType === 'pitchfork' || attackType === 'cluster-bomb';
+
+// 测试器：用§标记载荷位置，按攻击类型批量发送并比较响应
+const Intruder: React.FC<IntruderProps> = ({ draft, onDraftConsumed }) => {
+  const [config, setConfig] = useState<IntruderConfig>(DEFAULT_INTRUDER_CONFIG);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [attack, setAttack] = useState<IntruderAttackState | null>(null);
+  const [activeSetIndex, setActiveSetIndex] = useState(0);
+  const [sortKey, setSortKey] = useState<SortKey>('index');
+  const [sortAscending, setSortAscending] = useState(true);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [detail, setDetail] = useState<IntruderResultDetail | null>(null);
+  const requestRef = useRef<HTMLTextAreaElement>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    intruderService.loadConfig().then(loaded => {
+      setConfig(loaded);
+      setIsLoaded(true);
+    });
+    const handleMessage = (message: any) => {
+      if (message.action === 'intruder-update') {
+        setAttack(message.data || null);
+      }
+    };
+    browser.runtime.onMessage.addListener(handleMessage);
+    browser.runtime.sendMessage({ action: 'get-intruder-attack' });
+    return () => browser.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
+  const updateConfig = (changes: Partial<IntruderConfig>) => {
+    setConfig(prev => {
+      const next = { ...prev, ...changes };
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      saveTimer.current = setTimeout(() => {
+        intruderService.saveConfig(next).catch(() => { /* 已在服务中记录 */ });
+      }, SAVE_DELAY);
+      return next;
+    });
+  };
+
+  // 接收从请求列表发送过来的请求
+  useEffect(() => {
+    if (!draft || !isLoaded) return;
+    updateConfig({ rawRequest: draft.rawRequest, tabId: draft.tabId });
+    onDraftConsumed();
+  }, [draft, isLoaded]);
+
+  const positionCount = countPayloadPositions(config.rawRequest);
+  const setCount = usesSetPerPosition(config.attackType) ? Math.max(1, positionCount) : 1;
+  const payloadSets = useMemo(
+    () => Array.from({ length: setCount }, (_, i) => config.payloadSets[i] || createPayloadSet()),
+    [config.payloadSets, setCount]
+  );
+  const payloadLists = useMemo(() => payloadSets.map(generatePayloads), [payloadSets]);
+  const currentSetIndex = Math.min(activeSetIndex, setCount - 1);
+  const currentSet = payloadSets[currentSetIndex];
+  const requestCount = countAttackRequests(config.attackType, positionCount, payloadLists);
+
+  const updatePayloadSet = (changes: Partial<PayloadSet>) => {
+    updateConfig({ payloadSets: payloadSets.map((set, i) => i === currentSetIndex ? { ...set, ...changes } : set) });
+  };
+
+  // 用§包围选中的文本，未选中时插入一对空标记
+  const handleAddMarker = () => {
+    const textarea = requestRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const text = config.rawRequest;
+    updateConfig({
+      rawRequest: text.substring(0, selectionStart) + PAYLOAD_MARKER + text.substring(selectionStart, selectionEnd) +
+        PAYLOAD_MARKER + text.substring(selectionEnd)
+    });
+  };
+
+  const handleLoadFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      updatePayloadSet({ fileName: file.name, fileContent: await file.text() });
+    } catch (error) {
+      alert(`读取文件失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const isRunning = attack?.status === 'running';
+
+  const handleStart = async () => {
+    setSelectedIndex(null);
+    setDetail(null);
+    const result = await intruderService.start({ ...config, payloadSets }, await replayService.loadOptions());
+    if (!result.success) {
+      alert(result.error || '开始攻击失败');
+    }
+  };
+
+  const handleSelectResult = async (index: number) => {
+    setSelectedIndex(index);
+    setDetail(await intruderService.getResultDetail(index) || null);
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  const sortedResults = useMemo(() => {
+    const results = [...(attack?.results || [])];
+    results.sort((a, b) => {
+      const valueA = sortValue(a, sortKey);
+      const valueB = sortValue(b, sortKey);
+      const order = typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA).localeCompare(String(valueB));
+      return sortAscending ? order : -order;
+    });
+    return results;
+  }, [attack, sortKey, sortAscending]);
+
+  const renderPayloadSetFields = () => {
+    switch (currentSet.type) {
+      case 'list':
+        return (
+          <textarea
+            className="intruder-payload-list"
+            value={currentSet.list}
+            onChange={e => updatePayloadSet({ list: e.target.value })}
+            placeholder="每行一个载荷"
+            spellCheck={false}
+          />
+        );
+      case 'numbers':
+        return (
+          <div className="intruder-fields">
+            <label>从 <input type="number" value={currentSet.numberFrom} onChange={e => updatePayloadSet({ numberFrom: Number(e.target.value) })} /></label>
+            <label>到 <input type="number" value={currentSet.numberTo} onChange={e => updatePayloadSet({ numberTo: Number(e.target.value) })} /></label>
+            <label>步长 <input type="number" min={1} value={currentSet.numberStep} onChange={e => updatePayloadSet({ numberStep: Number(e.target.value) })} /></label>
+            <label>补零位数 <input type="number" min={0} value={currentSet.numberPadding} onChange={e => updatePayloadSet({ numberPadding: Math.max(0, Number(e.target.value)) })} /></label>
+          </div>
+        );
+      case 'char-block':
+        return (
+          <div className="intruder-fields">
+            <label>字符 <input type="text" value={currentSet.blockBase} onChange={e => updatePayloadSet({ blockBase: e.target.value })} /></label>
+            <label>最小长度 <input type="number" min={1} value={currentSet.blockMinLength} onChange={e => updatePayloadSet({ blockMinLength: Number(e.target.value) })} /></label>
+            <label>最大长度 <input type="number" min={1} value={currentSet.blockMaxLength} onChange={e => updatePayloadSet({ blockMaxLength: Number(e.target.value) })} /></label>
+            <label>步长 <input type="number" min={1} value={currentSet.blockStep} onChange={e => updatePayloadSet({ blockStep: Number(e.target.value) })} /></label>
+          </div>
+        );
+      case 'file':
+        return (
+          <div className="intruder-fields">
+            <input type="file" accept=".txt,.lst,.csv,text/plain" onChange={e => handleLoadFile(e.target.files?.[0])} />
+            {currentSet.fileName && <span>{currentSet.fileName}</span>}
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="intruder">
+      <div className="intruder-toolbar">
+        <select value={config.attackType} onChange={e => updateConfig({ attackType: e.target.value as IntruderAttackType })}>
+          {(Object.keys(ATTACK_TYPE_LABELS) as IntruderAttackType[]).map(type => (
+            <option key={type} value={type}>{ATTACK_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <button className="intruder-button" onClick={handleAddMarker} title="用§包围选中的文本">添加§</button>
+        <button
+          className="intruder-button"
+          onClick={() => updateConfig({ rawRequest: config.rawRequest.split(PAYLOAD_MARKER).join('') })}
+        >
+          清除§
+        </button>
+        <span className={positionCount < 0 ? 'intruder-error' : 'intruder-hint'}>
+          {positionCount < 0 ? '§标记不成对' : `${positionCount} 个位置，${requestCount} 个请求`}
+        </span>
+        {isRunning ? (
+          <button className="intruder-button danger" onClick={() => intruderService.stop()}>
+            <FiSquare size={12} /> 停止
+          </button>
+        ) : (
+          <button className="intruder-button primary" onClick={handleStart} disabled={positionCount <= 0 || requestCount === 0}>
+            <FiPlay size={12} /> 开始攻击
+          </button>
+        )}
+      </div>
+
+      <textarea
+        ref={requestRef}
+        className="intruder-request"
+        value={config.rawRequest}
+        onChange={e => updateConfig({ rawRequest: e.target.value })}
+        spellCheck={false}
+      />
+
+      <div className="intruder-payloads">
+        <div className="intruder-fields">
+          {setCount > 1 && (
+            <label>
+              载荷集
+              <select value={currentSetIndex} onChange={e => setActiveSetIndex(Number(e.target.value))}>
+                {payloadSets.map((_, i) => <option key={i} value={i}>位置 {i + 1}</option>)}
+              </select>
+            </label>
+          )}
+          <label>
+            类型
+            <select value={currentSet.type} onChange={e => updatePayloadSet({ type: e.target.value as PayloadSetType })}>
+              {(Object.keys(PAYLOAD_SET_TYPE_LABELS) as PayloadSetType[]).map(type => (
+                <option key={type} value={type}>{PAYLOAD_SET_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </label>
+          <span className="intruder-hint">{payloadLists[currentSetIndex]?.length || 0} 个载荷</span>
+        </div>
+        {renderPayloadSetFields()}
+        <PayloadProcessingChain
+          processors={currentSet.processors || []}
+          onChange={processors => updatePayloadSet({ processors })}
+          samplePayload={payloadLists[currentSetIndex]?.[0] || ''}
+        />
+      </div>
+
+      <div className="intruder-fields intruder-options">
+        <label>并发 <input type="number" min={1} max={50} value={config.concurrency} onChange={e => updateConfig({ concurrency: Math.min(50, Math.max(1, Number(e.target.value) || 1)) })} /></label>
+        <label>间隔(ms) <input type="number" min={0} value={config.throttle} onChange={e => updateConfig({ throttle: Math.max(0, Number(e.target.value) || 0) })} /></label>
+        <label>Grep匹配 <input type="text" value={config.grepMatch} onChange={e => updateConfig({ grepMatch: e.target.value })} placeholder="正则" /></label>
+        <label>Grep提取 <input type="text" value={config.grepExtract} onChange={e => updateConfig({ grepExtract: e.target.value })} placeholder="正则，取第一个捕获组" /></label>
+      </div>
+
+      {attack && (
+        <div className="intruder-results">
+          <div className="intruder-progress">
+            {attack.status === 'running' ? '攻击中' : attack.status === 'stopped' ? '已停止' : '已完成'}
+            {' '}{attack.results.length}/{attack.total}
+          </div>
+          <div className="intruder-table-wrapper">
+            <table className="intruder-table">
+              <thead>
+                <tr>
+                  {RESULT_COLUMNS.map(column => (
+                    <th key={column.key} onClick={() => handleSort(column.key)}>
+                      {column.label}
+                      {sortKey === column.key && (sortAscending ? <FiChevronUp size={10} /> : <FiChevronDown size={10} />)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedResults.map(result => (
+                  <tr
+                    key={result.index}
+                    className={`${selectedIndex === result.index ? 'selected' : ''} ${result.grepMatched ? 'matched' : ''}`}
+                    onClick={() => handleSelectResult(result.index)}
+                  >
+                    <td>{result.index}</td>
+                    <td title={result.payloads.join('\n')}>
+                      {result.position !== undefined && <span className="intruder-position">{result.position}</span>}
+                      {result.payloads.join(' | ')}
+                    </td>
+                    <td className={result.error ? 'intruder-error' : ''} title={result.error}>
+                      {result.error ? '失败' : result.statusCode}
+                    </td>
+                    <td>{result.length}</td>
+                    <td>{formatDuration(result.duration)}</td>
+                    <td>{result.grepMatched ? '✓' : ''}</td>
+                    <td title={result.extracted}>{result.extracted}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {detail && (
+            <div className="intruder-detail">
+              <textarea readOnly value={detail.rawRequest} spellCheck={false} />
+              <textarea readOnly value={detail.rawResponse || ''} spellCheck={false} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Intruder;
@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import {
+  MapLocalRule,
+  mapLocalService
+} from '../services/map-local-service';
+import {
+  FiCheckCircle,
+  FiPlus,
+  FiTrash2,
+  FiUpload,
+  FiX
+} from 'react-icons/fi';
+
+// 常用测试状态码
+const STATUS_PRESETS: { code: number; text: string }[] = [
+  { code: 200, text: 'OK' },
+  { code: 201, text: 'Created' },
+  { code: 204, text: 'No Content' },
+  { code: 301, text: 'Moved Permanently' },
+  { code: 302, text: 'Found' },
+  { code: 400, text: 'Bad Request' },
+  { code: 401, text: 'Unauthorized' },
+  { code: 403, text: 'Forbidden' },
+  { code: 404, text: 'Not Found' },
+  { code: 429, text: 'Too Many Requests' },
+  { code: 500, text: 'Internal Server Error' },
+  { code: 502, text: 'Bad Gateway' },
+  { code: 503, text: 'Service Unavailable' }
+];
+
+const MapLocalSettings: React.FC = () => {
+  const [rules, setRules] = useState<MapLocalRule[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 加载规则
+  useEffect(() => {
+    mapLocalService.loadRules()
+      .then(setRules)
+      .catch(error => console.error('加载本地映射规则失败:', error));
+  }, []);
+
+  // 更新规则
+  const updateRule = (ruleId: string, updates: Partial<MapLocalRule>) => {
+    setRules(prev => prev.map(rule => rule.id === ruleId ? { ...rule, ...updates } : rule));
+  };
+
+  // 从本地文件读取响应体
+  const handleFileSelect = (rule: MapLocalRule, file?: File) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      const updates: Partial<MapLocalRule> = {
+        body: dataUrl.substring(dataUrl.indexOf(',') + 1),
+        bodyBase64: true,
+        fileName: file.name
+      };
+      // 未设置Content-Type时使用文件类型
+      if (file.type && !/^content-type\s*:/im.test(rule.headers)) {
+        updates.headers = `Content-Type: ${file.type}${rule.headers ? `\n${rule.headers}` : ''}`;
+      }
+      updateRule(rule.id, updates);
+    };
+    reader.onerror = () => alert('读取文件失败');
+    reader.readAsDataURL(file);
+  };
+
+  // 保存规则
+  const handleSave = async () => {
+    const invalidRule = rules.find(rule => {
+      if (!rule.urlPattern) return true;
+      try {
+        new RegExp(rule.urlPattern);
+        if (rule.bodyPattern) new RegExp(rule.bodyPattern);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (invalidRule) {
+      alert(`规则"${invalidRule.name}"的URL正则为空或正则无效`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await mapLocalService.saveRules(rules);
+      alert('本地映射规则已保存');
+    } catch (error) {
+      console.error('保存本地映射规则失败:', error);
+      alert('保存本地映射规则失败（本地文件过大时可能超出存储限制）');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="capture-section">
+      <p className="capture-description">
+        命中规则的请求不会发往网络，直接返回这里配置的响应。规则按顺序匹配，第一条命中的规则生效
+      </p>
+
+      {rules.map(rule => (
+        <div key={rule.id} className={`traffic-rule-card ${rule.enabled ? '' : 'disabled'}`}>
+          <div className="traffic-rule-header">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+              title="启用规则"
+            />
+            <input
+              type="text"
+              className="rule-name-input"
+              value={rule.name}
+              onChange={e => updateRule(rule.id, { name: e.target.value })}
+              placeholder="规则名称"
+            />
+            <button
+              className="icon-button"
+              onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))}
+              title="删除规则"
+            >
+              <FiTrash2 size={16} />
+            </button>
+          </div>
+
+          <div className="traffic-rule-grid">
+            <label>请求方法</label>
+            <input
+              type="text"
+              value={rule.method}
+              onChange={e => updateRule(rule.id, { method: e.target.value })}
+              placeholder="GET,POST（留空为任意）"
+            />
+            <label>URL正则</label>
+            <input
+              type="text"
+              value={rule.urlPattern}
+              onChange={e => updateRule(rule.id, { urlPattern: e.target.value })}
+              placeholder="^https://api\.example\.com/users"
+            />
+            <label>请求体正则</label>
+            <input
+              type="text"
+              value={rule.bodyPattern}
+              onChange={e => updateRule(rule.id, { bodyPattern: e.target.value })}
+              placeholder="可选"
+            />
+            <label>状态</label>
+            <div className="traffic-rule-inline">
+              <select
+                value={STATUS_PRESETS.some(p => p.code === rule.statusCode) ? rule.statusCode : ''}
+                onChange={e => {
+                  const preset = STATUS_PRESETS.find(p => p.code === Number(e.target.value));
+                  if (preset) updateRule(rule.id, { statusCode: preset.code, statusText: preset.text });
+                }}
+              >
+                <option value="">自定义</option>
+                {STATUS_PRESETS.map(p => (
+                  <option key={p.code} value={p.code}>{p.code} {p.text}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                className="status-code-input"
+                value={rule.statusCode}
+                min={100}
+                max={599}
+                onChange={e => updateRule(rule.id, { statusCode: Number(e.target.value) || 200 })}
+              />
+              <input
+                type="text"
+                value={rule.statusText}
+                onChange={e => updateRule(rule.id, { statusText: e.target.value })}
+                placeholder="状态描述"
+              />
+            </div>
+            <label>延迟 (ms)</label>
+            <input
+              type="number"
+              min={0}
+              value={rule.latency}
+              onChange={e => updateRule(rule.id, { latency: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <label>响应头</label>
+            <textarea
+              rows={3}
+              value={rule.headers}
+              onChange={e => updateRule(rule.id, { headers: e.target.value })}
+              placeholder="每行一个，例如 Content-Type: application/json"
+            />
+            <label>响应体</label>
+            {rule.bodyBase64 ? (
+              <div className="traffic-rule-inline">
+                <span className="traffic-rule-file">本地文件: {rule.fileName}</span>
+                <button
+                  className="icon-button"
+                  onClick={() => updateRule(rule.id, { body: '', bodyBase64: false, fileName: undefined })}
+                  title="改为文本响应体"
+                >
+                  <FiX size={16} />
+                </button>
+              </div>
+            ) : (
+              <textarea
+                rows={5}
+                value={rule.body}
+                onChange={e => updateRule(rule.id, { body: e.target.value })}
+                placeholder="响应体内容"
+              />
+            )}
+            <span />
+            <label className="action-button traffic-rule-file-picker">
+              <FiUpload size={14} /> 从文件加载响应体
+              <input
+                type="file"
+                onChange={e => {
+                  handleFileSelect(rule, e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+
+      <button onClick={() => setRules([...rules, mapLocalService.createRule()])} className="action-button">
+        <FiPlus size={14} /> 添加规则
+      </button>
+
+      <div className="form-actions">
+        <button className="save-button" onClick={handleSave} disabled={isSaving} title="保存本地映射规则">
+          {isSaving ? '保存中...' : (
+            <>
+              <FiCheckCircle size={16} /> 保存规则
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MapLocalSettings;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import {
+  MapRemoteRule,
+  applyMapRemoteRules,
+  mapRemoteService
+} from '../services/map-remote-service';
+import {
+  FiCheckCircle,
+  FiPlus,
+  FiTrash2
+} from 'react-icons/fi';
+
+const MapRemoteSettings: React.FC = () => {
+  const [rules, setRules] = useState<MapRemoteRule[]>([]);
+  const [testUrl, setTestUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 加载规则
+  useEffect(() => {
+    mapRemoteService.loadRules()
+      .then(setRules)
+      .catch(error => console.error('加载远程映射规则失败:', error));
+  }, []);
+
+  // 更新规则
+  const updateRule = (ruleId: string, updates: Partial<MapRemoteRule>) => {
+    setRules(prev => prev.map(rule => rule.id === ruleId ? { ...rule, ...updates } : rule));
+  };
+
+  // 保存规则
+  const handleSave = async () => {
+    const invalidRule = rules.find(rule => !rule.fromHost.trim());
+    if (invalidRule) {
+      alert(`规则"${invalidRule.name}"需要填写匹配主机`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await mapRemoteService.saveRules(rules);
+      alert('远程映射规则已保存');
+    } catch (error) {
+      console.error('保存远程映射规则失败:', error);
+      alert('保存远程映射规则失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const testResult = testUrl.trim() ? applyMapRemoteRules(testUrl.trim(), [], rules) : null;
+
+  return (
+    <div className="capture-section">
+      <p className="capture-description">
+        命中规则的请求会被透明地转发到目标地址，页面看到的仍是原始URL。规则按顺序匹配，第一条命中的规则生效
+      </p>
+
+      {rules.map(rule => (
+        <div key={rule.id} className={`traffic-rule-card ${rule.enabled ? '' : 'disabled'}`}>
+          <div className="traffic-rule-header">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+              title="启用规则"
+            />
+            <input
+              type="text"
+              className="rule-name-input"
+              value={rule.name}
+              onChange={e => updateRule(rule.id, { name: e.target.value })}
+              placeholder="规则名称"
+            />
+            <button
+              className="icon-button"
+              onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))}
+              title="删除规则"
+            >
+              <FiTrash2 size={16} />
+            </button>
+          </div>
+
+          <div className="traffic-rule-grid">
+            <label>匹配</label>
+            <div className="traffic-rule-inline">
+              <select
+                value={rule.fromProtocol}
+                onChange={e => updateRule(rule.id, { fromProtocol: e.target.value as MapRemoteRule['fromProtocol'] })}
+              >
+                <option value="any">任意</option>
+                <option value="http">http</option>
+                <option value="https">https</option>
+              </select>
+              <input
+                type="text"
+                value={rule.fromHost}
+                onChange={e => updateRule(rule.id, { fromHost: e.target.value })}
+                placeholder="api.prod.example.com"
+              />
+              <input
+                type="text"
+                className="port-input"
+                value={rule.fromPort}
+                onChange={e => updateRule(rule.id, { fromPort: e.target.value.replace(/\D/g, '') })}
+                placeholder="端口"
+              />
+              <input
+                type="text"
+                value={rule.fromPath}
+                onChange={e => updateRule(rule.id, { fromPath: e.target.value })}
+                placeholder="路径前缀（可选）"
+              />
+            </div>
+            <label>映射到</label>
+            <div className="traffic-rule-inline">
+              <select
+                value={rule.toProtocol}
+                onChange={e => updateRule(rule.id, { toProtocol: e.target.value as MapRemoteRule['toProtocol'] })}
+              >
+                <option value="keep">保持</option>
+                <option value="http">http</option>
+                <option value="https">https</option>
+              </select>
+              <input
+                type="text"
+                value={rule.toHost}
+                onChange={e => updateRule(rule.id, { toHost: e.target.value })}
+                placeholder="localhost（留空保持）"
+              />
+              <input
+                type="text"
+                className="port-input"
+                value={rule.toPort}
+                onChange={e => updateRule(rule.id, { toPort: e.target.value.replace(/\D/g, '') })}
+                placeholder="端口"
+              />
+              <input
+                type="text"
+                value={rule.toPath}
+                onChange={e => updateRule(rule.id, { toPath: e.target.value })}
+                placeholder="替换路径前缀（可选）"
+              />
+            </div>
+            <span />
+            <label className="traffic-rule-checkbox">
+              <input
+                type="checkbox"
+                checked={rule.preserveHost}
+                onChange={e => updateRule(rule.id, { preserveHost: e.target.checked })}
+              />
+              <span>保留原始Host请求头</span>
+            </label>
+          </div>
+        </div>
+      ))}
+
+      <button onClick={() => setRules([...rules, mapRemoteService.createRule()])} className="action-button">
+        <FiPlus size={14} /> 添加规则
+      </button>
+
+      <div className="capture-list-item">
+        <input
+          type="text"
+          value={testUrl}
+          onChange={e => setTestUrl(e.target.value)}
+          placeholder="输入URL测试映射结果，例如：https://api.prod.example.com/v1/users"
+        />
+      </div>
+      {testResult && (
+        <p className="capture-description">
+          {testResult.rule ? `映射到: ${testResult.url}（规则: ${testResult.rule.name}）` : '未命中任何规则'}
+        </p>
+      )}
+
+      <div className="form-actions">
+        <button className="save-button" onClick={handleSave} disabled={isSaving} title="保存远程映射规则">
+          {isSaving ? '保存中...' : (
+            <>
+              <FiCheckCircle size={16} /> 保存规则
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MapRemoteSettings;
@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import {
+  MatchReplaceRule,
+  MatchReplaceTarget,
+  matchReplaceService
+} from '../services/match-replace-service';
+import {
+  FiCheckCircle,
+  FiPlus,
+  FiTrash2,
+  FiArrowUp,
+  FiArrowDown
+} from 'react-icons/fi';
+
+// 替换目标选项
+const targetOptions: { value: MatchReplaceTarget; label: string }[] = [
+  { value: MatchReplaceTarget.REQUEST_URL, label: '请求URL' },
+  { value: MatchReplaceTarget.REQUEST_HEADER, label: '请求头' },
+  { value: MatchReplaceTarget.REQUEST_BODY, label: '请求体' },
+  { value: MatchReplaceTarget.RESPONSE_HEADER, label: '响应头' },
+  { value: MatchReplaceTarget.RESPONSE_BODY, label: '响应体' }
+];
+
+const isHeaderTarget = (target: MatchReplaceTarget) =>
+  target === MatchReplaceTarget.REQUEST_HEADER || target === MatchReplaceTarget.RESPONSE_HEADER;
+
+const MatchReplaceSettings: React.FC = () => {
+  const [rules, setRules] = useState<MatchReplaceRule[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 加载规则
+  useEffect(() => {
+    matchReplaceService.loadRules()
+      .then(setRules)
+      .catch(error => console.error('加载匹配替换规则失败:', error));
+  }, []);
+
+  // 更新规则字段
+  const updateRule = <K extends keyof MatchReplaceRule>(index: number, field: K, value: MatchReplaceRule[K]) => {
+    const newRules = [...rules];
+    newRules[index] = { ...newRules[index], [field]: value };
+    setRules(newRules);
+  };
+
+  // 删除规则
+  const removeRule = (index: number) => {
+    const newRules = [...rules];
+    newRules.splice(index, 1);
+    setRules(newRules);
+  };
+
+  // 调整规则顺序（按顺序依次应用）
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const newRules = [...rules];
+    [newRules[index], newRules[target]] = [newRules[target], newRules[index]];
+    setRules(newRules);
+  };
+
+  // 保存规则
+  const handleSave = async () => {
+    const invalidRule = rules.find(rule => {
+      try {
+        if (rule.isRegex && rule.match) new RegExp(rule.match);
+        if (rule.urlPattern) new RegExp(rule.urlPattern);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (invalidRule) {
+      alert(`规则"${invalidRule.name}"的正则无效`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await matchReplaceService.saveRules(rules);
+      alert('匹配替换规则已保存，将应用到之后的请求');
+    } catch (error) {
+      console.error('保存匹配替换规则失败:', error);
+      alert('保存匹配替换规则失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="capture-section">
+      <p className="capture-description">
+        规则会改写实际发出的请求和页面收到的响应（正则规则中的"替换"只修改界面显示）。
+        请求头/响应头规则按"Name: value"整行匹配：匹配留空时添加替换内容作为新头部，替换结果为空时删除该头部。
+        URL范围为正则，留空表示所有范围内的请求
+      </p>
+
+      <table className="capture-rules-table">
+        <thead>
+          <tr>
+            <th>启用</th>
+            <th>名称</th>
+            <th>目标</th>
+            <th>匹配</th>
+            <th>替换</th>
+            <th>正则</th>
+            <th>URL范围</th>
+            <th>操作</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((rule, index) => (
+            <tr key={rule.id} className={rule.enabled ? '' : 'disabled'}>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => updateRule(index, 'enabled', e.target.checked)}
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  value={rule.name}
+                  onChange={e => updateRule(index, 'name', e.target.value)}
+                  placeholder="规则名称"
+                />
+              </td>
+              <td>
+                <select
+                  value={rule.target}
+                  onChange={e => updateRule(index, 'target', e.target.value as MatchReplaceTarget)}
+                >
+                  {targetOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <input
+                  type="text"
+                  value={rule.match}
+                  onChange={e => updateRule(index, 'match', e.target.value)}
+                  placeholder={isHeaderTarget(rule.target) ? '^User-Agent:.*$' : '要匹配的内容'}
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  value={rule.replace}
+                  onChange={e => updateRule(index, 'replace', e.target.value)}
+                  placeholder={isHeaderTarget(rule.target) ? 'X-Debug: 1' : '替换为'}
+                />
+              </td>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={rule.isRegex}
+                  onChange={e => updateRule(index, 'isRegex', e.target.checked)}
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  value={rule.urlPattern}
+                  onChange={e => updateRule(index, 'urlPattern', e.target.value)}
+                  placeholder="全部"
+                />
+              </td>
+              <td className="rule-actions">
+                <button onClick={() => moveRule(index, -1)} disabled={index === 0} title="上移">
+                  <FiArrowUp size={14} />
+                </button>
+                <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} title="下移">
+                  <FiArrowDown size={14} />
+                </button>
+                <button onClick={() => removeRule(index)} title="删除">
+                  <FiTrash2 size={14} />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button onClick={() => setRules([...rules, matchReplaceService.createRule()])} className="action-button">
+        <FiPlus size={14} /> 添加规则
+      </button>
+
+      <div className="form-actions">
+        <button className="save-button" onClick={handleSave} disabled={isSaving} title="保存匹配替换规则">
+          {isSaving ? '保存中...' : (
+            <>
+              <FiCheckCircle size={16} /> 保存规则
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MatchReplaceSettings;
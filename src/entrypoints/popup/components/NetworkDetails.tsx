@@ -0,0 +1,111 @@
+import React from 'react';
+import {
+  NetworkInfo,
+  NetworkTiming,
+  formatBytes,
+  formatDuration
+} from '../services/network-info-service';
+
+interface NetworkDetailsProps {
+  network?: NetworkInfo;
+}
+
+// 耗时阶段，顺序与瀑布图一致
+const TIMING_PHASES: { key: keyof NetworkTiming; label: string }[] = [
+  { key: 'blocked', label: '排队' },
+  { key: 'dns', label: 'DNS' },
+  { key: 'connect', label: '连接' },
+  { key: 'ssl', label: 'SSL' },
+  { key: 'send', label: '发送' },
+  { key: 'wait', label: '等待响应' },
+  { key: 'receive', label: '接收' }
+];
+
+const formatDate = (seconds: number): string => new Date(seconds * 1000).toLocaleString();
+
+// 需要突出显示的头部
+const HIGHLIGHT_HEADERS = new Set(['cookie', 'set-cookie', 'host', ':authority']);
+
+const HeaderList: React.FC<{ title: string; headers: { name: string; value: string }[] }> = ({ title, headers }) => (
+  <div className="network-headers">
+    <div className="network-headers-title">{title}</div>
+    {headers.map((h, i) => (
+      <div key={i} className={`network-header ${HIGHLIGHT_HEADERS.has(h.name.toLowerCase()) ? 'highlight' : ''}`}>
+        <span className="network-header-name">{h.name}:</span> <span>{h.value}</span>
+      </div>
+    ))}
+  </div>
+);
+
+// 展示请求的耗时、大小、远程地址、协议和TLS信息
+const NetworkDetails: React.FC<NetworkDetailsProps> = ({ network }) => {
+  if (!network) {
+    return <div className="network-details empty">暂无网络信息（请求尚未完成或为重放请求）</div>;
+  }
+
+  const { timing, securityDetails, blockedCookies } = network;
+  const total = timing && timing.total > 0 ? timing.total : 0;
+
+  return (
+    <div className="network-details">
+      <div className="network-details-grid">
+        <span>协议</span><span>{network.protocol || '-'}</span>
+        <span>远程地址</span><span>{network.remoteAddress || '-'}</span>
+        <span>传输大小</span><span>{formatBytes(network.encodedDataLength)}</span>
+        <span>响应体大小</span><span>{formatBytes(network.decodedBodyLength)}</span>
+        <span>总耗时</span><span>{formatDuration(timing?.total)}</span>
+        {network.fromCache && (<><span>来源</span><span>缓存</span></>)}
+        {network.failed && (<><span>错误</span><span className="network-failed">{network.failed}</span></>)}
+      </div>
+
+      {timing && (
+        <div className="network-timing">
+          {TIMING_PHASES.filter(p => timing[p.key] >= 0).map(p => (
+            <div key={p.key} className="network-timing-row">
+              <span className="network-timing-label">{p.label}</span>
+              <span className="network-timing-bar">
+                <span
+                  className={`network-timing-fill ${p.key}`}
+                  style={{ width: total ? `${Math.max(1, timing[p.key] / total * 100)}%` : 0 }}
+                />
+              </span>
+              <span className="network-timing-value">{formatDuration(timing[p.key])}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {securityDetails && (
+        <div className="network-details-grid">
+          <span>TLS</span><span>{securityDetails.protocol}</span>
+          <span>密钥交换</span><span>{securityDetails.keyExchange || '-'}</span>
+          <span>加密套件</span><span>{securityDetails.cipher}</span>
+          <span>证书主体</span><span>{securityDetails.subjectName}</span>
+          <span>颁发者</span><span>{securityDetails.issuer}</span>
+          <span>有效期</span><span>{formatDate(securityDetails.validFrom)} ~ {formatDate(securityDetails.validTo)}</span>
+          {securityDetails.sanList.length > 0 && (
+            <><span>SAN</span><span>{securityDetails.sanList.join(', ')}</span></>
+          )}
+        </div>
+      )}
+
+      {network.requestHeaders && <HeaderList title="实际发送的请求头" headers={network.requestHeaders} />}
+      {network.responseHeaders && <HeaderList title="实际收到的响应头" headers={network.responseHeaders} />}
+
+      {blockedCookies && blockedCookies.length > 0 && (
+        <div className="network-headers">
+          <div className="network-headers-title">被阻止的Cookie</div>
+          {blockedCookies.map((c, i) => (
+            <div key={i} className="network-header blocked">
+              <span className="network-header-name">{c.direction === 'request' ? '未发送' : '未保存'}</span>{' '}
+              <span title={c.value}>{c.name}</span>{' '}
+              <span className="network-blocked-reason">{c.reasons.join(', ')}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NetworkDetails;
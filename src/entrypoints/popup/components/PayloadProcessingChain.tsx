@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { FiArrowUp, FiArrowDown, FiTrash2 } from 'react-icons/fi';
+import {
+  PayloadProcessor,
+  PayloadProcessorType,
+  PayloadCaseMode,
+  PayloadHashAlgorithm,
+  PAYLOAD_PROCESSOR_LABELS,
+  PAYLOAD_CASE_LABELS,
+  PAYLOAD_HASH_ALGORITHMS,
+  createPayloadProcessor,
+  describeProcessor,
+  previewProcessingChain
+} from '../services/payload-processing-service';
+import { encoderDecoderService } from '../services/encoder-decoder-service';
+
+interface PayloadProcessingChainProps {
+  processors: PayloadProcessor[];
+  onChange: (processors: PayloadProcessor[]) => void;
+  samplePayload: string; // 预览默认使用载荷集中的第一个载荷
+}
+
+// 载荷处理链：按顺序对每个载荷执行处理器，可用示例载荷预览每一步的结果
+const PayloadProcessingChain: React.FC<PayloadProcessingChainProps> = ({ processors, onChange, samplePayload }) => {
+  const [sample, setSample] = useState('');
+  const [steps, setSteps] = useState<string[]>([]);
+  const [previewError, setPreviewError] = useState('');
+  const previewInput = sample || samplePayload;
+
+  useEffect(() => {
+    let cancelled = false;
+    previewProcessingChain(previewInput, processors)
+      .then(result => {
+        if (cancelled) return;
+        setSteps(result);
+        setPreviewError('');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setSteps([]);
+        setPreviewError(error instanceof Error ? error.message : String(error));
+      });
+    return () => { cancelled = true; };
+  }, [previewInput, processors]);
+
+  const updateProcessor = (id: string, changes: Partial<PayloadProcessor>) => {
+    onChange(processors.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  const moveProcessor = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= processors.length) return;
+    const next = [...processors];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const renderFields = (processor: PayloadProcessor) => {
+    switch (processor.type) {
+      case 'prefix':
+      case 'suffix':
+        return <input type="text" value={processor.text} onChange={e => updateProcessor(processor.id, { text: e.target.value })} />;
+      case 'case':
+        return (
+          <select value={processor.caseMode} onChange={e => updateProcessor(processor.id, { caseMode: e.target.value as PayloadCaseMode })}>
+            {(Object.keys(PAYLOAD_CASE_LABELS) as PayloadCaseMode[]).map(mode => (
+              <option key={mode} value={mode}>{PAYLOAD_CASE_LABELS[mode]}</option>
+            ))}
+          </select>
+        );
+      case 'match-replace':
+        return (
+          <>
+            <input type="text" value={processor.text} placeholder="正则" onChange={e => updateProcessor(processor.id, { text: e.target.value })} />
+            <input type="text" value={processor.replacement} placeholder="替换为" onChange={e => updateProcessor(processor.id, { replacement: e.target.value })} />
+          </>
+        );
+      case 'hash':
+        return (
+          <select value={processor.hashAlgorithm} onChange={e => updateProcessor(processor.id, { hashAlgorithm: e.target.value as PayloadHashAlgorithm })}>
+            {PAYLOAD_HASH_ALGORITHMS.map(algorithm => <option key={algorithm} value={algorithm}>{algorithm}</option>)}
+          </select>
+        );
+      case 'encode':
+        return (
+          <select value={processor.encodeMethod} onChange={e => updateProcessor(processor.id, { encodeMethod: e.target.value })}>
+            {encoderDecoderService.getAllMethods().map(method => (
+              <option key={method.id} value={method.id}>{method.name}</option>
+            ))}
+          </select>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const enabledProcessors = processors.filter(p => p.enabled);
+
+  return (
+    <div className="payload-processing">
+      <div className="intruder-fields">
+        <span>载荷处理</span>
+        <select
+          value=""
+          onChange={e => {
+            if (!e.target.value) return;
+            onChange([...processors, createPayloadProcessor(e.target.value as PayloadProcessorType)]);
+          }}
+        >
+          <option value="">添加处理器...</option>
+          {(Object.keys(PAYLOAD_PROCESSOR_LABELS) as PayloadProcessorType[]).map(type => (
+            <option key={type} value={type}>{PAYLOAD_PROCESSOR_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {processors.map((processor, index) => (
+        <div key={processor.id} className={`payload-processor ${processor.enabled ? '' : 'disabled'}`}>
+          <input
+            type="checkbox"
+            checked={processor.enabled}
+            onChange={e => updateProcessor(processor.id, { enabled: e.target.checked })}
+            title="启用"
+          />
+          <span className="payload-processor-type">{PAYLOAD_PROCESSOR_LABELS[processor.type]}</span>
+          {renderFields(processor)}
+          <button className="intruder-icon-button" onClick={() => moveProcessor(index, -1)} disabled={index === 0} title="上移">
+            <FiArrowUp size={12} />
+          </button>
+          <button className="intruder-icon-button" onClick={() => moveProcessor(index, 1)} disabled={index === processors.length - 1} title="下移">
+            <FiArrowDown size={12} />
+          </button>
+          <button className="intruder-icon-button" onClick={() => onChange(processors.filter(p => p.id !== processor.id))} title="删除">
+            <FiTrash2 size={12} />
+          </button>
+        </div>
+      ))}
+
+      {processors.length > 0 && (
+        <div className="payload-preview">
+          <label className="intruder-fields">
+            预览
+            <input type="text" value={sample} placeholder={samplePayload || '示例载荷'} onChange={e => setSample(e.target.value)} />
+          </label>
+          {previewError ? (
+            <div className="intruder-error">{previewError}</div>
+          ) : (
+            steps.slice(1).map((step, i) => (
+              <div key={enabledProcessors[i]?.id || i} className="payload-preview-step">
+                <span className="intruder-hint">{enabledProcessors[i] ? describeProcessor(enabledProcessors[i]) : ''}</span>
+                <code>{step}</code>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayloadProcessingChain;
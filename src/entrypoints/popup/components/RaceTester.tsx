@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FiZap } from 'react-icons/fi';
+import {
+  RaceConfig,
+  RaceDraft,
+  RaceRunResult,
+  DEFAULT_RACE_CONFIG,
+  MAX_RACE_COPIES,
+  RACE_MODE_LABELS,
+  raceService
+} from '../services/race-service';
+import { replayService } from '../services/replay-service';
+import '../styles/RaceTester.css';
+
+interface RaceTesterProps {
+  draft: RaceDraft | null;
+  onDraftConsumed: () => void;
+}
+
+// 编辑配置时延迟保存
+const SAVE_DELAY = 500;
+
+// 各响应分组在时间线上的颜色
+const GROUP_COLORS = ['#64b5f6', '#81c784', '#f9a825', '#e57373', '#ba68c8', '#4db6ac', '#ff8a65', '#a1887f'];
+const groupColor = (groupIndex: number) => GROUP_COLORS[groupIndex % GROUP_COLORS.length];
+
+// 竞争测试：同时放行多个请求副本，按时间线和响应分组查看结果
+const RaceTester: React.FC<RaceTesterProps> = ({ draft, onDraftConsumed }) => {
+  const [config, setConfig] = useState<RaceConfig>(DEFAULT_RACE_CONFIG);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<RaceRunResult | null>(null);
+  const [selectedGroupIndex, setSelectedGroupIndex] = useState<number | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    raceService.loadConfig().then(loaded => {
+      setConfig(loaded);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  const updateConfig = (changes: Partial<RaceConfig>) => {
+    setConfig(prev => {
+      const next = { ...prev, ...changes };
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      saveTimer.current = setTimeout(() => {
+        raceService.saveConfig(next).catch(() => { /* 已在服务中记录 */ });
+      }, SAVE_DELAY);
+      return next;
+    });
+  };
+
+  // 接收从请求列表发送过来的请求
+  useEffect(() => {
+    if (!draft || !isLoaded) return;
+    updateConfig({ rawRequest: draft.rawRequest, tabId: draft.tabId });
+    onDraftConsumed();
+  }, [draft, isLoaded]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setSelectedGroupIndex(null);
+    try {
+      const runResult = await raceService.run(config, await replayService.loadOptions());
+      if (!runResult.success) {
+        alert(runResult.error || '竞争测试失败');
+        return;
+      }
+      setResult(runResult);
+      setSelectedGroupIndex(runResult.groups.length > 0 ? 0 : null);
+    } catch (error) {
+      alert(`竞争测试失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const maxEndOffset = Math.max(1, ...(result?.copies || []).map(c => c.endOffset));
+  const selectedGroup = result && selectedGroupIndex !== null ? result.groups[selectedGroupIndex] : null;
+
+  return (
+    <div className="race-tester">
+      <div className="race-toolbar">
+        <label>
+          副本数
+          <input
+            type="number"
+            min={2}
+            max={MAX_RACE_COPIES}
+            value={config.copies}
+            onChange={e => updateConfig({ copies: Math.min(MAX_RACE_COPIES, Math.max(2, Number(e.target.value) || 2)) })}
+          />
+        </label>
+        <label title="标签页未附加调试器时，先发一个HEAD请求建立keep-alive连接">
+          <input type="checkbox" checked={config.warmUp} onChange={e => updateConfig({ warmUp: e.target.checked })} />
+          预热连接
+        </label>
+        <button className="race-button primary" onClick={handleRun} disabled={isRunning || !config.rawRequest.trim()}>
+          <FiZap size={12} /> {isRunning ? '发送中...' : '同时发送'}
+        </button>
+      </div>
+
+      <div className="race-editors">
+        <textarea
+          className="race-request"
+          value={config.rawRequest}
+          onChange={e => updateConfig({ rawRequest: e.target.value })}
+          placeholder="在请求分析中选中请求后点击“竞争测试”，可用§标记各副本使用不同载荷的位置"
+          spellCheck={false}
+        />
+        <textarea
+          className="race-payloads"
+          value={config.payloads}
+          onChange={e => updateConfig({ payloads: e.target.value })}
+          placeholder="载荷（可选），每行一个，依次分配给各副本"
+          spellCheck={false}
+        />
+      </div>
+
+      {result && (
+        <div className="race-results">
+          <div className="race-summary">
+            {result.mode && <span>{RACE_MODE_LABELS[result.mode]}</span>}
+            {result.mode === 'gate' && (
+              <span className={result.readyCount! < result.copies.length ? 'race-warning' : ''}>
+                放行时就绪 {result.readyCount}/{result.copies.length}
+              </span>
+            )}
+            <span>{result.groups.length} 种不同响应</span>
+          </div>
+
+          <div className="race-timeline">
+            {result.copies.map(copy => (
+              <div key={copy.index} className="race-timeline-row">
+                <span className="race-timeline-label" title={copy.payload}>
+                  #{copy.index}{copy.payload !== undefined && ` ${copy.payload}`}
+                </span>
+                <div className="race-timeline-track">
+                  <div
+                    className="race-timeline-bar"
+                    style={{
+                      left: `${Math.max(0, copy.startOffset) / maxEndOffset * 100}%`,
+                      width: `${Math.max(0.5, (copy.endOffset - Math.max(0, copy.startOffset)) / maxEndOffset * 100)}%`,
+                      backgroundColor: groupColor(copy.groupIndex)
+                    }}
+                    title={`发出 +${copy.startOffset} ms，完成 +${copy.endOffset} ms`}
+                  />
+                </div>
+                <span className="race-timeline-info">
+                  {copy.error ? '失败' : copy.statusCode} +{copy.startOffset}/{copy.endOffset} ms
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="race-groups">
+            {result.groups.map((group, index) => (
+              <div
+                key={index}
+                className={`race-group ${selectedGroupIndex === index ? 'selected' : ''}`}
+                onClick={() => setSelectedGroupIndex(index)}
+              >
+                <span className="race-group-color" style={{ backgroundColor: groupColor(index) }} />
+                <span>{group.error ? '失败' : group.statusCode}</span>
+                <span>{group.length} 字节</span>
+                <span>×{group.indexes.length}</span>
+                <span className="race-group-indexes">#{group.indexes.join(', #')}</span>
+              </div>
+            ))}
+          </div>
+
+          {selectedGroup && (
+            <textarea
+              className="race-response"
+              readOnly
+              value={selectedGroup.error ? `请求失败: ${selectedGroup.error}` : selectedGroup.rawResponse || ''}
+              spellCheck={false}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RaceTester;
@@ -212,7 +212,7 @@ const RegexEditor: React.FC<RegexEditorProps> = ({
               onChange={handleChange}
             >
               <option value={RegexRuleAction.RECORD}>记录匹配项</option>
-              <option value={RegexRuleAction.REPLACE}>替换匹配内容</option>
+              <option value={RegexRuleAction.REPLACE}>替换匹配内容（仅显示）</option>
             </select>
           </div>
           
@@ -0,0 +1,309 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FiPlus, FiX, FiSend, FiChevronLeft, FiChevronRight, FiShield } from 'react-icons/fi';
+import {
+  RepeaterWorkspace,
+  RepeaterTab,
+  RepeaterDraft,
+  DEFAULT_REPEATER_WORKSPACE,
+  addRepeaterTab,
+  appendRepeaterExchange,
+  trimRepeaterWorkspace,
+  repeaterService
+} from '../services/repeater-service';
+import { formatDuration } from '../services/network-info-service';
+import {
+  ReplayOptions,
+  ReplayContext,
+  DEFAULT_REPLAY_OPTIONS,
+  REPLAY_CONTEXT_LABELS,
+  replayService
+} from '../services/replay-service';
+import '../styles/Repeater.css';
+
+interface RepeaterProps {
+  draft: RepeaterDraft | null;
+  onDraftConsumed: () => void;
+}
+
+// 编辑请求时延迟保存工作区
+const SAVE_DELAY = 500;
+
+// 重放器：多个子标签页，各自保存编辑中的请求和每次发送的记录
+const Repeater: React.FC<RepeaterProps> = ({ draft, onDraftConsumed }) => {
+  const [workspace, setWorkspace] = useState<RepeaterWorkspace>(DEFAULT_REPEATER_WORKSPACE);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [sendingTabIds, setSendingTabIds] = useState<Set<string>>(new Set());
+  const [renamingTabId, setRenamingTabId] = useState<string | null>(null);
+  const [replayOptions, setReplayOptions] = useState<ReplayOptions>(DEFAULT_REPLAY_OPTIONS);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    repeaterService.loadWorkspace().then(loaded => {
+      setWorkspace(loaded);
+      setIsLoaded(true);
+    });
+    replayService.loadOptions().then(setReplayOptions);
+  }, []);
+
+  // 重放选项对请求列表中的“重放”同样生效
+  const updateReplayOptions = (changes: Partial<ReplayOptions>) => {
+    const next = { ...replayOptions, ...changes };
+    setReplayOptions(next);
+    replayService.saveOptions(next).catch(error => alert(`保存重放选项失败: ${error instanceof Error ? error.message : String(error)}`));
+  };
+
+  // 工作区变化后保存，重新打开弹窗时恢复
+  const updateWorkspace = (updater: (prev: RepeaterWorkspace) => RepeaterWorkspace) => {
+    setWorkspace(prev => {
+      const next = trimRepeaterWorkspace(updater(prev));
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      saveTimer.current = setTimeout(() => {
+        repeaterService.saveWorkspace(next)
+          .catch(error => alert(`保存重放器工作区失败: ${error instanceof Error ? error.message : String(error)}`));
+      }, SAVE_DELAY);
+      return next;
+    });
+  };
+
+  // 接收从请求列表发送过来的请求
+  useEffect(() => {
+    if (!draft || !isLoaded) return;
+    updateWorkspace(prev => addRepeaterTab(prev, draft));
+    onDraftConsumed();
+  }, [draft, isLoaded]);
+
+  const updateTab = (tabId: string, updater: (tab: RepeaterTab) => RepeaterTab) => {
+    updateWorkspace(prev => ({ ...prev, tabs: prev.tabs.map(t => t.id === tabId ? updater(t) : t) }));
+  };
+
+  const closeTab = (tabId: string) => {
+    updateWorkspace(prev => {
+      const index = prev.tabs.findIndex(t => t.id === tabId);
+      const tabs = prev.tabs.filter(t => t.id !== tabId);
+      const activeTabId = prev.activeTabId === tabId
+        ? (tabs[Math.min(index, tabs.length - 1)]?.id || null)
+        : prev.activeTabId;
+      return { ...prev, tabs, activeTabId };
+    });
+  };
+
+  const activeTab = workspace.tabs.find(t => t.id === workspace.activeTabId) || null;
+  const currentExchange = activeTab && activeTab.historyIndex >= 0 ? activeTab.history[activeTab.historyIndex] : null;
+  const isSending = !!activeTab && sendingTabIds.has(activeTab.id);
+
+  const handleSend = async () => {
+    if (!activeTab) return;
+    const { id, rawRequest, tabId } = activeTab;
+    setSendingTabIds(prev => new Set(prev).add(id));
+    try {
+      const result = await replayService.replay(rawRequest, tabId, replayOptions);
+      updateTab(id, tab => appendRepeaterExchange(tab, {
+        id: `${id}-${result.sentAt}`,
+        rawRequest,
+        sentAt: result.sentAt,
+        duration: result.duration,
+        rawResponse: result.rawResponse,
+        statusCode: result.statusCode,
+        error: result.success ? undefined : result.error,
+        timing: result.timing,
+        finalUrl: result.finalUrl,
+        redirects: result.redirects,
+        headersInjected: result.headersInjected
+      }));
+    } catch (error) {
+      const sentAt = Date.now();
+      updateTab(id, tab => appendRepeaterExchange(tab, {
+        id: `${id}-${sentAt}`,
+        rawRequest,
+        sentAt,
+        duration: 0,
+        error: error instanceof Error ? error.message : String(error)
+      }));
+    } finally {
+      setSendingTabIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  // 在发送记录中前后切换，同时恢复当时发送的请求
+  const navigateHistory = (offset: number) => {
+    if (!activeTab) return;
+    const historyIndex = activeTab.historyIndex + offset;
+    if (historyIndex < 0 || historyIndex >= activeTab.history.length) return;
+    updateTab(activeTab.id, tab => ({ ...tab, historyIndex, rawRequest: tab.history[historyIndex].rawRequest }));
+  };
+
+  return (
+    <div className="repeater">
+      <div className="repeater-tabs">
+        {workspace.tabs.map(tab => (
+          <div
+            key={tab.id}
+            className={`repeater-tab ${tab.id === workspace.activeTabId ? 'active' : ''}`}
+            onClick={() => updateWorkspace(prev => ({ ...prev, activeTabId: tab.id }))}
+            onDoubleClick={() => setRenamingTabId(tab.id)}
+            title="双击重命名"
+          >
+            {renamingTabId === tab.id ? (
+              <input
+                autoFocus
+                defaultValue={tab.name}
+                onBlur={e => {
+                  const name = e.target.value.trim();
+                  if (name) updateTab(tab.id, t => ({ ...t, name }));
+                  setRenamingTabId(null);
+                }}
+                onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+              />
+            ) : (
+              <span className="repeater-tab-name">{tab.name}</span>
+            )}
+            <button
+              className="repeater-icon-button"
+              onClick={e => { e.stopPropagation(); closeTab(tab.id); }}
+              title="关闭"
+            >
+              <FiX size={12} />
+            </button>
+          </div>
+        ))}
+        <button className="repeater-icon-button" onClick={() => updateWorkspace(prev => addRepeaterTab(prev))} title="新建标签页">
+          <FiPlus size={14} />
+        </button>
+      </div>
+
+      {activeTab ? (
+        <>
+          <div className="repeater-toolbar">
+            <button className="repeater-button primary" onClick={handleSend} disabled={isSending}>
+              <FiSend size={14} /> {isSending ? '发送中...' : '发送'}
+            </button>
+            <button
+              className="repeater-icon-button"
+              onClick={() => navigateHistory(-1)}
+              disabled={activeTab.historyIndex <= 0}
+              title="上一次发送"
+            >
+              <FiChevronLeft size={16} />
+            </button>
+            <span className="repeater-history-position">
+              {activeTab.history.length > 0 ? `${activeTab.historyIndex + 1}/${activeTab.history.length}` : '未发送'}
+            </span>
+            <button
+              className="repeater-icon-button"
+              onClick={() => navigateHistory(1)}
+              disabled={activeTab.historyIndex >= activeTab.history.length - 1}
+              title="下一次发送"
+            >
+              <FiChevronRight size={16} />
+            </button>
+            {currentExchange && (
+              <span className="repeater-exchange-info">
+                {currentExchange.headersInjected && (
+                  <span className="repeater-injected" title="请求头已通过调试器按输入内容发送（含Cookie、Origin、Referer、Host等）">
+                    <FiShield size={12} />
+                  </span>
+                )}
+                {currentExchange.statusCode !== undefined && <span className="repeater-status">{currentExchange.statusCode}</span>}
+                <span title={currentExchange.timing
+                  ? `等待 ${formatDuration(currentExchange.timing.wait)}，接收 ${formatDuration(currentExchange.timing.receive)}`
+                  : undefined}
+                >
+                  {formatDuration(currentExchange.timing?.total ?? currentExchange.duration)}
+                </span>
+                <span>{new Date(currentExchange.sentAt).toLocaleTimeString()}</span>
+              </span>
+            )}
+          </div>
+
+          <div className="repeater-options">
+            <label>
+              执行环境
+              <select
+                value={replayOptions.context}
+                onChange={e => updateReplayOptions({ context: e.target.value as ReplayContext })}
+              >
+                {(Object.keys(REPLAY_CONTEXT_LABELS) as ReplayContext[]).map(context => (
+                  <option key={context} value={context}>{REPLAY_CONTEXT_LABELS[context]}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Cookie
+              <select
+                value={replayOptions.credentials}
+                onChange={e => updateReplayOptions({ credentials: e.target.value as ReplayOptions['credentials'] })}
+              >
+                <option value="include">include</option>
+                <option value="same-origin">same-origin</option>
+                <option value="omit">omit</option>
+              </select>
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={replayOptions.followRedirects}
+                onChange={e => updateReplayOptions({ followRedirects: e.target.checked })}
+              />
+              跟随重定向
+            </label>
+            <label>
+              超时(ms)
+              <input
+                type="number"
+                min={1000}
+                step={1000}
+                value={replayOptions.timeout}
+                onChange={e => updateReplayOptions({ timeout: Math.max(1000, Number(e.target.value) || DEFAULT_REPLAY_OPTIONS.timeout) })}
+              />
+            </label>
+          </div>
+
+          <div className="repeater-panes">
+            <div className="repeater-pane">
+              <div className="repeater-pane-title">请求</div>
+              <textarea
+                value={activeTab.rawRequest}
+                onChange={e => {
+                  const rawRequest = e.target.value;
+                  updateTab(activeTab.id, tab => ({ ...tab, rawRequest }));
+                }}
+                spellCheck={false}
+              />
+            </div>
+            <div className="repeater-pane">
+              <div className="repeater-pane-title">响应</div>
+              {currentExchange?.redirects && currentExchange.redirects.length > 0 && (
+                <div className="repeater-redirects">
+                  {currentExchange.redirects.map((hop, index) => (
+                    <div key={index} className="repeater-redirect-hop">
+                      <span className="repeater-status">{hop.status || '3xx'}</span>
+                      <span>{hop.url}</span>
+                      {hop.location && <span>→ {hop.location}</span>}
+                    </div>
+                  ))}
+                  {currentExchange.finalUrl && <div className="repeater-redirect-hop">最终地址: {currentExchange.finalUrl}</div>}
+                </div>
+              )}
+              <textarea
+                readOnly
+                value={currentExchange ? (currentExchange.error ? `发送失败: ${currentExchange.error}` : currentExchange.rawResponse || '') : ''}
+                placeholder="点击“发送”后在此显示响应"
+                spellCheck={false}
+              />
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="repeater-empty">
+          在请求分析中选中请求后点击“发送到重放器”，或点击“+”新建标签页
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Repeater;
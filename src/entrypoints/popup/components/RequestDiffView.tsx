@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import { FiCheckCircle } from 'react-icons/fi';
+import '../styles/RequestDiffView.css';
+
+// 请求快照（浏览器原始请求或实际放行的请求）
+export interface RequestSnapshot {
+  method: string;
+  url: string;
+  headers: { name: string; value: string }[];
+  postData?: string;
+}
+
+// 差异行类型
+type DiffKind = 'added' | 'removed' | 'changed';
+
+interface DiffRow {
+  field: string;
+  kind: DiffKind;
+  original?: string;
+  forwarded?: string;
+}
+
+interface RequestDiffViewProps {
+  original: RequestSnapshot;
+  forwarded: RequestSnapshot;
+}
+
+// 将CDP请求对象中的headers（对象形式）转换为数组
+export const headersToArray = (headers?: Record<string, string>): { name: string; value: string }[] =>
+  Object.entries(headers || {}).map(([name, value]) => ({ name, value: String(value) }));
+
+// 计算原始请求与放行请求之间的差异
+export const diffRequests = (original: RequestSnapshot, forwarded: RequestSnapshot): DiffRow[] => {
+  const rows: DiffRow[] = [];
+
+  if (original.method !== forwarded.method) {
+    rows.push({ field: '方法', kind: 'changed', original: original.method, forwarded: forwarded.method });
+  }
+  if (original.url !== forwarded.url) {
+    rows.push({ field: 'URL', kind: 'changed', original: original.url, forwarded: forwarded.url });
+  }
+
+  // 请求头名称不区分大小写
+  const originalHeaders = new Map(original.headers.map(h => [h.name.toLowerCase(), h]));
+  const forwardedHeaders = new Map(forwarded.headers.map(h => [h.name.toLowerCase(), h]));
+
+  originalHeaders.forEach((header, key) => {
+    const next = forwardedHeaders.get(key);
+    if (!next) {
+      rows.push({ field: header.name, kind: 'removed', original: header.value });
+    } else if (next.value !== header.value) {
+      rows.push({ field: header.name, kind: 'changed', original: header.value, forwarded: next.value });
+    }
+  });
+  forwardedHeaders.forEach((header, key) => {
+    if (!originalHeaders.has(key)) {
+      rows.push({ field: header.name, kind: 'added', forwarded: header.value });
+    }
+  });
+
+  // 未在编辑器中提供请求体时，浏览器会发送原始请求体
+  if (forwarded.postData !== undefined && (original.postData || '') !== forwarded.postData) {
+    rows.push({
+      field: '请求体',
+      kind: original.postData ? 'changed' : 'added',
+      original: original.postData,
+      forwarded: forwarded.postData
+    });
+  }
+
+  return rows;
+};
+
+const kindLabels: Record<DiffKind, string> = {
+  added: '新增',
+  removed: '删除',
+  changed: '修改'
+};
+
+const RequestDiffView: React.FC<RequestDiffViewProps> = ({ original, forwarded }) => {
+  const rows = useMemo(() => diffRequests(original, forwarded), [original, forwarded]);
+
+  if (rows.length === 0) {
+    return (
+      <div className="request-diff-view empty">
+        <FiCheckCircle size={16} />
+        <span>放行的请求与浏览器原始请求一致</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="request-diff-view">
+      <table>
+        <thead>
+          <tr>
+            <th>字段</th>
+            <th>变更</th>
+            <th>原始请求</th>
+            <th>实际放行</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={`${row.field}-${index}`} className={`diff-${row.kind}`}>
+              <td className="diff-field">{row.field}</td>
+              <td className="diff-kind">{kindLabels[row.kind]}</td>
+              <td className="diff-original">{row.original ?? ''}</td>
+              <td className="diff-forwarded">{row.forwarded ?? ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RequestDiffView;
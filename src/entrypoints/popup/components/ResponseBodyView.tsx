@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import { HEX_VIEW_LIMIT, bytesToBase64, hexDump } from '../services/body-service';
+
+export type ResponseViewMode = 'text' | 'hex' | 'preview';
+
+interface ResponseBodyViewProps {
+  mode: 'hex' | 'preview';
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+// 响应体的十六进制视图和媒体预览
+const ResponseBodyView: React.FC<ResponseBodyViewProps> = ({ mode, bytes, mimeType }) => {
+  const dump = useMemo(() => mode === 'hex' ? hexDump(bytes) : '', [mode, bytes]);
+  const dataUrl = useMemo(
+    () => mode === 'preview' ? `data:${mimeType};base64,${bytesToBase64(bytes)}` : '',
+    [mode, bytes, mimeType]
+  );
+
+  if (bytes.length === 0) {
+    return <div className="response-body-view empty">响应体为空</div>;
+  }
+
+  if (mode === 'hex') {
+    return (
+      <div className="response-body-view">
+        {bytes.length > HEX_VIEW_LIMIT && (
+          <div className="response-body-note">仅显示前 {HEX_VIEW_LIMIT.toLocaleString()} 字节，共 {bytes.length.toLocaleString()} 字节</div>
+        )}
+        <pre className="hex-dump">{dump}</pre>
+      </div>
+    );
+  }
+
+  const mediaType = mimeType.split('/')[0];
+  return (
+    <div className="response-body-view preview">
+      {mediaType === 'image' ? (
+        <img src={dataUrl} alt="响应图片预览" />
+      ) : mediaType === 'audio' ? (
+        <audio src={dataUrl} controls />
+      ) : mediaType === 'video' ? (
+        <video src={dataUrl} controls />
+      ) : (
+        <div className="response-body-note">不支持预览该类型的内容 ({mimeType})</div>
+      )}
+      <div className="response-body-note">{mimeType}，{bytes.length.toLocaleString()} 字节</div>
+    </div>
+  );
+};
+
+export default ResponseBodyView;
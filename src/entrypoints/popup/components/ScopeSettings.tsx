@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ScopeSettings as ScopeSettingsType,
+  ScopeRule,
+  DEFAULT_SCOPE_SETTINGS,
+  isUrlInScope,
+  scopeService
+} from '../services/scope-service';
+import {
+  FiCheckCircle,
+  FiPlus,
+  FiTrash2,
+  FiArrowUp,
+  FiArrowDown,
+  FiTarget
+} from 'react-icons/fi';
+
+const ScopeSettings: React.FC = () => {
+  const [settings, setSettings] = useState<ScopeSettingsType>(DEFAULT_SCOPE_SETTINGS);
+  const [testUrl, setTestUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 加载设置
+  useEffect(() => {
+    scopeService.loadSettings()
+      .then(setSettings)
+      .catch(error => console.error('加载范围设置失败:', error));
+  }, []);
+
+  // 更新规则字段
+  const updateRule = <K extends keyof ScopeRule>(index: number, field: K, value: ScopeRule[K]) => {
+    const newRules = [...settings.rules];
+    newRules[index] = { ...newRules[index], [field]: value };
+    setSettings(prev => ({ ...prev, rules: newRules }));
+  };
+
+  // 添加规则
+  const addRule = (type: ScopeRule['type']) => {
+    setSettings(prev => ({ ...prev, rules: [...prev.rules, scopeService.createRule(type)] }));
+  };
+
+  // 删除规则
+  const removeRule = (index: number) => {
+    const newRules = [...settings.rules];
+    newRules.splice(index, 1);
+    setSettings(prev => ({ ...prev, rules: newRules }));
+  };
+
+  // 调整规则顺序（按顺序匹配，先命中者生效）
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= settings.rules.length) return;
+    const newRules = [...settings.rules];
+    [newRules[index], newRules[target]] = [newRules[target], newRules[index]];
+    setSettings(prev => ({ ...prev, rules: newRules }));
+  };
+
+  // 保存设置
+  const handleSave = async () => {
+    const invalidRegex = settings.rules.find(rule => {
+      if (rule.pathMatch !== 'regex' || !rule.path) return false;
+      try {
+        new RegExp(rule.path);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (invalidRegex) {
+      alert(`路径正则无效: ${invalidRegex.path}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await scopeService.saveSettings(settings);
+      alert('目标范围已保存');
+    } catch (error) {
+      console.error('保存范围设置失败:', error);
+      alert('保存范围设置失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const testResult = testUrl.trim() ? isUrlInScope(testUrl.trim(), { ...settings, enabled: true }) : null;
+
+  return (
+    <div className="capture-section">
+      <div className="form-group checkbox-group">
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={e => setSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+          />
+          <FiTarget size={16} />
+          <span>启用目标范围（范围外的请求自动放行，不记录、不拦截、不做正则处理和指纹识别）</span>
+        </label>
+      </div>
+      <p className="capture-description">
+        规则按顺序匹配，第一条命中的规则决定请求是否在范围内；没有规则命中时，若存在包含规则则视为范围外
+      </p>
+
+      <table className="capture-rules-table">
+        <thead>
+          <tr>
+            <th>启用</th>
+            <th>类型</th>
+            <th>协议</th>
+            <th>主机</th>
+            <th>端口</th>
+            <th>路径</th>
+            <th>操作</th>
+          </tr>
+        </thead>
+        <tbody>
+          {settings.rules.map((rule, index) => (
+            <tr key={rule.id} className={rule.enabled ? '' : 'disabled'}>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => updateRule(index, 'enabled', e.target.checked)}
+                />
+              </td>
+              <td>
+                <select value={rule.type} onChange={e => updateRule(index, 'type', e.target.value as ScopeRule['type'])}>
+                  <option value="include">包含</option>
+                  <option value="exclude">排除</option>
+                </select>
+              </td>
+              <td>
+                <select value={rule.protocol} onChange={e => updateRule(index, 'protocol', e.target.value as ScopeRule['protocol'])}>
+                  <option value="any">任意</option>
+                  <option value="http">HTTP</option>
+                  <option value="https">HTTPS</option>
+                </select>
+              </td>
+              <td>
+                <input
+                  type="text"
+                  value={rule.host}
+                  onChange={e => updateRule(index, 'host', e.target.value)}
+                  placeholder="*.example.com"
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  className="port-input"
+                  value={rule.port}
+                  onChange={e => updateRule(index, 'port', e.target.value.replace(/\D/g, ''))}
+                  placeholder="任意"
+                />
+              </td>
+              <td className="path-cell">
+                <select value={rule.pathMatch} onChange={e => updateRule(index, 'pathMatch', e.target.value as ScopeRule['pathMatch'])}>
+                  <option value="prefix">前缀</option>
+                  <option value="regex">正则</option>
+                </select>
+                <input
+                  type="text"
+                  value={rule.path}
+                  onChange={e => updateRule(index, 'path', e.target.value)}
+                  placeholder={rule.pathMatch === 'regex' ? '^/api/.*' : '/api/'}
+                />
+              </td>
+              <td className="rule-actions">
+                <button onClick={() => moveRule(index, -1)} disabled={index === 0} title="上移">
+                  <FiArrowUp size={14} />
+                </button>
+                <button onClick={() => moveRule(index, 1)} disabled={index === settings.rules.length - 1} title="下移">
+                  <FiArrowDown size={14} />
+                </button>
+                <button onClick={() => removeRule(index)} title="删除">
+                  <FiTrash2 size={14} />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="capture-inline-actions">
+        <button onClick={() => addRule('include')} className="action-button">
+          <FiPlus size={14} /> 添加包含规则
+        </button>
+        <button onClick={() => addRule('exclude')} className="action-button">
+          <FiPlus size={14} /> 添加排除规则
+        </button>
+      </div>
+
+      <div className="capture-list-item">
+        <input
+          type="text"
+          value={testUrl}
+          onChange={e => setTestUrl(e.target.value)}
+          placeholder="输入URL测试是否在范围内，例如：https://api.example.com/v1/users"
+        />
+        {testResult !== null && (
+          <span className={`scope-test-result ${testResult ? 'in-scope' : 'out-of-scope'}`}>
+            {testResult ? '范围内' : '范围外'}
+          </span>
+        )}
+      </div>
+
+      <div className="form-actions">
+        <button className="save-button" onClick={handleSave} disabled={isSaving} title="保存目标范围">
+          {isSaving ? '保存中...' : (
+            <>
+              <FiCheckCircle size={16} /> 保存范围
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScopeSettings;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import browser from 'webextension-polyfill';
+import { FiMonitor, FiChevronDown, FiRefreshCw } from 'react-icons/fi';
+import {
+  TabTargetSettings,
+  TabTargetMode,
+  DEFAULT_TAB_TARGET_SETTINGS,
+  isTabTargeted,
+  tabTargetService
+} from '../services/tab-target-service';
+import '../styles/TabTargetPicker.css';
+
+const MODE_LABELS: Record<TabTargetMode, string> = {
+  current: '当前标签页',
+  selected: '选中的标签页',
+  host: '主机匹配的标签页',
+  window: '整个窗口',
+  all: '所有标签页'
+};
+
+// 抓包目标选择：决定调试器附加到哪些标签页
+const TabTargetPicker: React.FC = () => {
+  const [settings, setSettings] = useState<TabTargetSettings>(DEFAULT_TAB_TARGET_SETTINGS);
+  const [isOpen, setIsOpen] = useState(false);
+  const [tabs, setTabs] = useState<browser.Tabs.Tab[]>([]);
+  const [windows, setWindows] = useState<browser.Windows.Window[]>([]);
+  const [attachedTabIds, setAttachedTabIds] = useState<number[]>([]);
+  const [passiveTabIds, setPassiveTabIds] = useState<number[]>([]);
+  const [hostPattern, setHostPattern] = useState('');
+
+  useEffect(() => {
+    tabTargetService.loadSettings().then(loaded => {
+      setSettings(loaded);
+      setHostPattern(loaded.hostPattern);
+    });
+  }, []);
+
+  // 刷新标签页、窗口和已附加调试器的标签页
+  const refresh = async () => {
+    const [allTabs, allWindows, attached] = await Promise.all([
+      browser.tabs.query({ url: ['http://*/*', 'https://*/*'] }),
+      browser.windows.getAll({ windowTypes: ['normal'] }),
+      browser.runtime.sendMessage({ action: 'get-attached-tabs' }) as Promise<{ tabIds: number[]; passiveTabIds: number[] } | undefined>
+    ]);
+    setTabs(allTabs);
+    setWindows(allWindows);
+    setAttachedTabIds(attached?.tabIds || []);
+    setPassiveTabIds(attached?.passiveTabIds || []);
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  const save = async (next: TabTargetSettings) => {
+    setSettings(next);
+    try {
+      await tabTargetService.saveSettings(next);
+      // 等待后台完成附加/分离后刷新状态
+      setTimeout(refresh, 500);
+    } catch (error) {
+      alert('保存抓包目标失败');
+    }
+  };
+
+  const handleModeChange = async (mode: TabTargetMode) => {
+    if (mode === 'current') {
+      const tab = await tabTargetService.getCurrentTab();
+      save({ ...settings, mode, tabIds: tab?.id !== undefined ? [tab.id] : [] });
+    } else if (mode === 'window' && settings.windowId === undefined) {
+      const focusedWindow = await browser.windows.getLastFocused().catch(() => undefined);
+      save({ ...settings, mode, windowId: focusedWindow?.id });
+    } else {
+      save({ ...settings, mode });
+    }
+  };
+
+  const toggleTab = (tabId: number, checked: boolean) => {
+    const tabIds = checked ? [...settings.tabIds, tabId] : settings.tabIds.filter(id => id !== tabId);
+    save({ ...settings, tabIds });
+  };
+
+  const targetedCount = tabs.filter(tab => isTabTargeted(tab, settings)).length;
+
+  return (
+    <div className="tab-target-picker">
+      <button className="tab-target-toggle" onClick={() => setIsOpen(!isOpen)} title="选择抓包的标签页">
+        <FiMonitor size={14} />
+        <span>{MODE_LABELS[settings.mode]}</span>
+        <FiChevronDown size={12} />
+      </button>
+
+      {isOpen && (
+        <div className="tab-target-panel">
+          <div className="tab-target-modes">
+            {(Object.keys(MODE_LABELS) as TabTargetMode[]).map(mode => (
+              <label key={mode}>
+                <input type="radio" checked={settings.mode === mode} onChange={() => handleModeChange(mode)} />
+                <span>{MODE_LABELS[mode]}</span>
+              </label>
+            ))}
+          </div>
+
+          {settings.mode === 'host' && (
+            <div className="tab-target-row">
+              <input
+                type="text"
+                value={hostPattern}
+                onChange={e => setHostPattern(e.target.value)}
+                onBlur={() => hostPattern !== settings.hostPattern && save({ ...settings, hostPattern })}
+                placeholder="*.example.com, api.test.com"
+              />
+            </div>
+          )}
+
+          {settings.mode === 'window' && (
+            <div className="tab-target-row">
+              <select
+                value={settings.windowId ?? ''}
+                onChange={e => save({ ...settings, windowId: Number(e.target.value) })}
+              >
+                {windows.map(win => (
+                  <option key={win.id} value={win.id}>
+                    窗口 {win.id}（{tabs.filter(tab => tab.windowId === win.id).length} 个网页）
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="tab-target-summary">
+            <span>将抓取 {targetedCount} 个标签页，已附加 {attachedTabIds.length} 个</span>
+            <button className="tab-target-icon-button" onClick={refresh} title="刷新">
+              <FiRefreshCw size={12} />
+            </button>
+          </div>
+
+          <div className="tab-target-tabs">
+            {tabs.map(tab => (
+              <label key={tab.id} className={isTabTargeted(tab, settings) ? 'targeted' : ''} title={tab.url}>
+                <input
+                  type="checkbox"
+                  checked={settings.tabIds.includes(tab.id!)}
+                  disabled={settings.mode !== 'selected'}
+                  onChange={e => toggleTab(tab.id!, e.target.checked)}
+                />
+                <span className="tab-target-title">{tab.title || tab.url}</span>
+                {attachedTabIds.includes(tab.id!) && <span className="tab-target-attached">抓包中</span>}
+                {passiveTabIds.includes(tab.id!) && (
+                  <span className="tab-target-passive" title="调试器无法附加（可能已打开开发者工具），只记录请求和状态">被动捕获</span>
+                )}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TabTargetPicker;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { FiRepeat, FiHardDrive, FiShuffle } from 'react-icons/fi';
+import MatchReplaceSettings from './MatchReplaceSettings';
+import MapLocalSettings from './MapLocalSettings';
+import MapRemoteSettings from './MapRemoteSettings';
+import '../styles/CaptureSettings.css';
+import '../styles/TrafficRules.css';
+
+interface TrafficRulesProps {
+  darkMode?: boolean;
+}
+
+type TrafficRuleSection = 'match-replace' | 'map-local' | 'map-remote';
+
+// 流量规则：修改实际请求和响应的规则集合
+const TrafficRules: React.FC<TrafficRulesProps> = ({ darkMode = false }) => {
+  const [activeSection, setActiveSection] = useState<TrafficRuleSection>('match-replace');
+
+  return (
+    <div className={`capture-settings ${darkMode ? 'dark' : ''}`}>
+      <div className="capture-tabs">
+        <div
+          className={`capture-tab ${activeSection === 'match-replace' ? 'active' : ''}`}
+          onClick={() => setActiveSection('match-replace')}
+        >
+          <FiRepeat size={16} />
+          <span>匹配替换</span>
+        </div>
+        <div
+          className={`capture-tab ${activeSection === 'map-local' ? 'active' : ''}`}
+          onClick={() => setActiveSection('map-local')}
+        >
+          <FiHardDrive size={16} />
+          <span>本地映射</span>
+        </div>
+        <div
+          className={`capture-tab ${activeSection === 'map-remote' ? 'active' : ''}`}
+          onClick={() => setActiveSection('map-remote')}
+        >
+          <FiShuffle size={16} />
+          <span>远程映射</span>
+        </div>
+      </div>
+
+      <div className="capture-content">
+        {activeSection === 'match-replace' && <MatchReplaceSettings />}
+        {activeSection === 'map-local' && <MapLocalSettings />}
+        {activeSection === 'map-remote' && <MapRemoteSettings />}
+      </div>
+    </div>
+  );
+};
+
+export default TrafficRules;
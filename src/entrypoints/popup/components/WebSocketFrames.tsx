@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { FiArrowUp, FiArrowDown, FiDownload, FiAlertTriangle, FiSend } from 'react-icons/fi';
+import {
+  WebSocketInfo,
+  WebSocketFrame,
+  WebSocketDirection,
+  opcodeLabel,
+  isBinaryFrame,
+  framePayloadLength,
+  filterFrames,
+  exportFrames
+} from '../services/websocket-service';
+import { base64ToBytes, hexDump } from '../services/body-service';
+import { formatBytes } from '../services/network-info-service';
+
+interface WebSocketFramesProps {
+  url: string;
+  info: WebSocketInfo;
+  onSendToRepeater?: (frame: WebSocketFrame) => void;
+}
+
+const STATE_LABELS: Record<WebSocketInfo['state'], string> = {
+  connecting: '连接中',
+  open: '已连接',
+  closed: '已关闭'
+};
+
+// 帧内容：二进制帧显示十六进制，JSON文本格式化显示
+const formatPayload = (frame: WebSocketFrame): string => {
+  if (frame.error) return frame.error;
+  if (isBinaryFrame(frame)) {
+    try {
+      return hexDump(base64ToBytes(frame.payloadData));
+    } catch {
+      return frame.payloadData;
+    }
+  }
+  try {
+    return JSON.stringify(JSON.parse(frame.payloadData), null, 2);
+  } catch {
+    return frame.payloadData;
+  }
+};
+
+// 单个WebSocket连接的双向帧列表
+const WebSocketFrames: React.FC<WebSocketFramesProps> = ({ url, info, onSendToRepeater }) => {
+  const [direction, setDirection] = useState<'all' | WebSocketDirection>('all');
+  const [query, setQuery] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [selectedFrameId, setSelectedFrameId] = useState<number | null>(null);
+
+  const searchedFrames = useMemo(() => filterFrames(info.frames, query, isRegex), [info.frames, query, isRegex]);
+  const visibleFrames = useMemo(
+    () => (searchedFrames || []).filter(frame => direction === 'all' || frame.direction === direction),
+    [searchedFrames, direction]
+  );
+  const selectedFrame = info.frames.find(frame => frame.id === selectedFrameId) || null;
+
+  return (
+    <div className="websocket-frames">
+      <div className="websocket-toolbar">
+        <span className={`websocket-state ${info.state}`}>{STATE_LABELS[info.state]}</span>
+        <select value={direction} onChange={e => setDirection(e.target.value as typeof direction)}>
+          <option value="all">全部</option>
+          <option value="sent">发送</option>
+          <option value="received">接收</option>
+        </select>
+        <input
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="搜索帧内容..."
+          className={searchedFrames === null ? 'invalid' : ''}
+        />
+        <label className="regex-label" title="使用正则表达式搜索">
+          <input type="checkbox" checked={isRegex} onChange={e => setIsRegex(e.target.checked)} />
+          <span>正则</span>
+        </label>
+        <span className="websocket-count">
+          {visibleFrames.length}/{info.frames.length}
+          {info.droppedFrames > 0 && ` (已丢弃 ${info.droppedFrames} 个早期帧)`}
+        </span>
+        <button onClick={() => exportFrames(url, visibleFrames)} disabled={visibleFrames.length === 0} title="导出当前显示的帧为JSON">
+          <FiDownload size={14} />
+        </button>
+      </div>
+
+      <div className="websocket-frame-list">
+        {visibleFrames.map(frame => (
+          <div
+            key={frame.id}
+            className={`websocket-frame ${frame.direction} ${frame.id === selectedFrameId ? 'selected' : ''}`}
+            onClick={() => setSelectedFrameId(frame.id)}
+          >
+            <span className="frame-direction">
+              {frame.error ? <FiAlertTriangle /> : frame.direction === 'sent' ? <FiArrowUp /> : <FiArrowDown />}
+            </span>
+            <span className="frame-time">{new Date(frame.time).toLocaleTimeString()}</span>
+            <span className="frame-opcode">{opcodeLabel(frame.opcode)}</span>
+            <span className="frame-length">{formatBytes(framePayloadLength(frame))}</span>
+            <span className="frame-data">
+              {frame.error || (isBinaryFrame(frame) ? `[二进制 ${frame.payloadData.substring(0, 40)}...]` : frame.payloadData.substring(0, 200))}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {selectedFrame && (
+        <div className="websocket-frame-detail">
+          {onSendToRepeater && !selectedFrame.error && (
+            <button onClick={() => onSendToRepeater(selectedFrame)} title="编辑后在原连接或新连接上重新发送">
+              <FiSend size={12} /> 发送到WS重放
+            </button>
+          )}
+          <pre>{formatPayload(selectedFrame)}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebSocketFrames;
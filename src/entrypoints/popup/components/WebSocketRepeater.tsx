@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import browser from 'webextension-polyfill';
+import { FiArrowUp, FiArrowDown, FiPlus, FiSend, FiTrash2, FiAlertTriangle } from 'react-icons/fi';
+import {
+  WebSocketFrame,
+  WebSocketRepeaterSession,
+  opcodeLabel,
+  isBinaryFrame
+} from '../services/websocket-service';
+import '../styles/WebSocketRepeater.css';
+
+// 从帧列表发送到重放的草稿
+export interface WebSocketRepeaterDraft {
+  connectionId: string;
+  payload: string;
+  opcode: number;
+}
+
+interface WebSocketRepeaterProps {
+  connections: { id: string; url: string; state: string }[];
+  draft: WebSocketRepeaterDraft | null;
+  onDraftConsumed: () => void;
+}
+
+const STATE_LABELS: Record<string, string> = {
+  connecting: '连接中',
+  open: '已连接',
+  closed: '已关闭'
+};
+
+// 为每个接收帧计算距上一条重放消息的时间，用于关联响应
+const correlateFrames = (frames: WebSocketFrame[]) => {
+  let lastSent: WebSocketFrame | null = null;
+  let sentIndex = 0;
+  return frames.map(frame => {
+    if (frame.direction === 'sent') {
+      lastSent = frame;
+      sentIndex++;
+      return { frame, label: `#${sentIndex}` };
+    }
+    return { frame, label: lastSent ? `#${sentIndex} +${frame.time - lastSent.time}ms` : '' };
+  });
+};
+
+// WebSocket重放：在原连接或新建连接上发送编辑后的消息，并按时间关联收到的帧
+const WebSocketRepeater: React.FC<WebSocketRepeaterProps> = ({ connections, draft, onDraftConsumed }) => {
+  const [sessions, setSessions] = useState<WebSocketRepeaterSession[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [newConnectionId, setNewConnectionId] = useState('');
+  const [newMode, setNewMode] = useState<'live' | 'new'>('live');
+  const [payload, setPayload] = useState('');
+  const [opcode, setOpcode] = useState(1);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    const handleMessage = (message: any) => {
+      if (message.action === 'ws-repeater-update') {
+        setSessions(message.data || []);
+      }
+    };
+    browser.runtime.onMessage.addListener(handleMessage);
+    browser.runtime.sendMessage({ action: 'get-ws-repeater-sessions' });
+    return () => browser.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
+  // 接收从帧列表发送过来的消息
+  useEffect(() => {
+    if (!draft) return;
+    setNewConnectionId(draft.connectionId);
+    setPayload(draft.payload);
+    setOpcode(draft.opcode === 2 ? 2 : 1);
+    const existing = sessions.find(s => s.connectionId === draft.connectionId && s.socket.state !== 'closed');
+    if (existing) setSelectedSessionId(existing.id);
+    onDraftConsumed();
+  }, [draft]);
+
+  const selectedSession = sessions.find(s => s.id === selectedSessionId) || null;
+  const correlatedFrames = useMemo(
+    () => selectedSession ? correlateFrames(selectedSession.socket.frames) : [],
+    [selectedSession]
+  );
+
+  // 创建重放会话
+  const handleCreateSession = async () => {
+    const connectionId = newConnectionId || connections[0]?.id;
+    if (!connectionId) return;
+    const result = await browser.runtime.sendMessage({
+      action: 'ws-repeater-create', connectionId, mode: newMode
+    }) as { success: boolean; sessionId?: string; error?: string };
+    if (result?.success && result.sessionId) {
+      setSelectedSessionId(result.sessionId);
+    } else {
+      alert(result?.error || '创建重放会话失败');
+    }
+  };
+
+  // 发送消息
+  const handleSend = async () => {
+    if (!selectedSession) return;
+    setIsSending(true);
+    try {
+      const result = await browser.runtime.sendMessage({
+        action: 'ws-repeater-send', sessionId: selectedSession.id, payload, opcode
+      }) as { success: boolean; error?: string };
+      if (!result?.success) {
+        alert(result?.error || '发送失败');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCloseSession = (sessionId: string) => {
+    browser.runtime.sendMessage({ action: 'ws-repeater-close', sessionId });
+    if (sessionId === selectedSessionId) setSelectedSessionId(null);
+  };
+
+  return (
+    <div className="ws-repeater">
+      <div className="ws-repeater-sidebar">
+        <div className="ws-repeater-create">
+          <select value={newConnectionId} onChange={e => setNewConnectionId(e.target.value)}>
+            {connections.length === 0 && <option value="">没有捕获到WebSocket连接</option>}
+            {connections.map(c => (
+              <option key={c.id} value={c.id}>{c.url} ({STATE_LABELS[c.state] || c.state})</option>
+            ))}
+          </select>
+          <select value={newMode} onChange={e => setNewMode(e.target.value as 'live' | 'new')}>
+            <option value="live">在原连接上发送</option>
+            <option value="new">从页面新建连接</option>
+          </select>
+          <button onClick={handleCreateSession} disabled={connections.length === 0} className="ws-repeater-button">
+            <FiPlus size={14} /> 新建会话
+          </button>
+        </div>
+
+        <div className="ws-repeater-sessions">
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className={`ws-repeater-session ${session.id === selectedSessionId ? 'selected' : ''}`}
+              onClick={() => setSelectedSessionId(session.id)}
+            >
+              <span className={`websocket-state ${session.socket.state}`}>{STATE_LABELS[session.socket.state]}</span>
+              <span className="ws-repeater-session-mode">{session.mode === 'live' ? '原连接' : '新连接'}</span>
+              <span className="ws-repeater-session-url" title={session.url}>{session.url}</span>
+              <button
+                className="ws-repeater-icon-button"
+                onClick={e => { e.stopPropagation(); handleCloseSession(session.id); }}
+                title={session.mode === 'new' ? '关闭连接并移除会话' : '移除会话'}
+              >
+                <FiTrash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="ws-repeater-main">
+        {selectedSession ? (
+          <>
+            {selectedSession.error && (
+              <div className="ws-repeater-error"><FiAlertTriangle size={14} /> {selectedSession.error}</div>
+            )}
+            <div className="websocket-frame-list">
+              {correlatedFrames.length === 0 && <div className="ws-repeater-empty">尚未发送消息</div>}
+              {correlatedFrames.map(({ frame, label }) => (
+                <div key={frame.id} className={`websocket-frame ${frame.direction}`}>
+                  <span className="frame-direction">{frame.direction === 'sent' ? <FiArrowUp /> : <FiArrowDown />}</span>
+                  <span className="frame-time">{new Date(frame.time).toLocaleTimeString()}</span>
+                  <span className="frame-opcode">{opcodeLabel(frame.opcode)}</span>
+                  <span className="frame-correlation">{label}</span>
+                  <span className="frame-data" title={frame.payloadData}>
+                    {isBinaryFrame(frame) ? `[二进制 ${frame.payloadData.substring(0, 40)}...]` : frame.payloadData}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="ws-repeater-composer">
+              <textarea
+                value={payload}
+                onChange={e => setPayload(e.target.value)}
+                placeholder={opcode === 2 ? '二进制消息（base64）' : '文本消息'}
+              />
+              <div className="ws-repeater-composer-actions">
+                <select value={opcode} onChange={e => setOpcode(Number(e.target.value))}>
+                  <option value={1}>文本</option>
+                  <option value={2}>二进制 (base64)</option>
+                </select>
+                <button
+                  onClick={handleSend}
+                  disabled={isSending || selectedSession.socket.state !== 'open'}
+                  className="ws-repeater-button primary"
+                >
+                  <FiSend size={14} /> {isSending ? '发送中...' : '发送'}
+                </button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="ws-repeater-empty">
+            在请求分析中选中WebSocket帧后点击“发送到WS重放”，或在左侧选择连接新建会话
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WebSocketRepeater;
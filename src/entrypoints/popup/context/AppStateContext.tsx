@@ -3,7 +3,7 @@ import React, { createContext, useContext, useReducer, ReactNode } from 'react';
 // 类型定义
 export type ModeType = 'intercept' | 'proxy';
 export type FilterType = 'all' | 'paused' | 'finished';
-export type TabType = 'requests' | 'ai' | 'regex' | 'proxy' | 'fingerprint' | 'encoder';
+export type TabType = 'requests' | 'capture' | 'traffic' | 'repeater' | 'intruder' | 'race' | 'websocket' | 'ai' | 'regex' | 'proxy' | 'fingerprint' | 'encoder';
 
 export interface InterceptedRequest {
   id: string;
@@ -33,7 +33,6 @@ export interface AppState {
   requests: InterceptedRequest[];
   selectedRequestId: string | null;
   requestText: string;
-  maxRequestsCount: number;
   
   // 过滤和搜索
   filter: FilterType;
@@ -89,7 +88,6 @@ export type AppAction =
   | { type: 'UPDATE_REQUEST'; payload: { id: string; updates: Partial<InterceptedRequest> } }
   | { type: 'SET_SELECTED_REQUEST_ID'; payload: string | null }
   | { type: 'SET_REQUEST_TEXT'; payload: string }
-  | { type: 'SET_MAX_REQUESTS_COUNT'; payload: number }
   | { type: 'SET_FILTER'; payload: FilterType }
   | { type: 'SET_STATUS_FILTER'; payload: string }
   | { type: 'SET_METHOD_FILTER'; payload: string }
@@ -120,8 +118,7 @@ export type AppAction =
   | { type: 'REMOVE_PENDING_REQUEST_ID'; payload: string }
   | { type: 'SET_REPLAYING_ID'; payload: string | null }
   | { type: 'SET_IS_STANDALONE'; payload: boolean }
-  | { type: 'CLEAR_ALL_REQUESTS' }
-  | { type: 'MANAGE_REQUESTS_MEMORY'; payload: InterceptedRequest[] };
+  | { type: 'CLEAR_ALL_REQUESTS' };
 
 // 初始状态
 const initialState: AppState = {
@@ -130,7 +127,6 @@ const initialState: AppState = {
   requests: [],
   selectedRequestId: null,
   requestText: '',
-  maxRequestsCount: 1000,
   
   filter: 'all',
   statusFilter: 'ALL',
@@ -203,9 +199,6 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
     case 'SET_REQUEST_TEXT':
       return { ...state, requestText: action.payload };
     
-    case 'SET_MAX_REQUESTS_COUNT':
-      return { ...state, maxRequestsCount: action.payload };
-    
     case 'SET_FILTER':
       return { ...state, filter: action.payload };
     
@@ -310,35 +303,11 @@ function appStateReducer(state: AppState, action: AppAction): AppState {
         replayingId: null,
       };
     
-    case 'MANAGE_REQUESTS_MEMORY':
-      const managedRequests = manageRequestsMemory(action.payload, state.maxRequestsCount);
-      return { ...state, requests: managedRequests };
-    
     default:
       return state;
   }
 }
 
-// 内存管理函数
-function manageRequestsMemory(requests: InterceptedRequest[], maxCount: number): InterceptedRequest[] {
-  if (requests.length <= maxCount) {
-    return requests;
-  }
-  
-  // 按时间戳排序，保留最新的请求
-  const sortedRequests = [...requests].sort((a, b) => 
-    (b.timestamp || 0) - (a.timestamp || 0)
-  );
-  
-  const managedRequests = sortedRequests.slice(0, maxCount);
-  
-  // 清理24小时前的请求
-  const twentyFourHoursAgo = Date.now() - (24 * 60 * 60 * 1000);
-  return managedRequests.filter(req => 
-    (req.timestamp || Date.now()) > twentyFourHoursAgo
-  );
-}
-
 // Context
 const AppStateContext = createContext<{
   state: AppState;
@@ -381,7 +350,5 @@ export const createAppActions = (dispatch: React.Dispatch<AppAction>) => ({
   setShowAIDialog: (show: boolean) => dispatch({ type: 'SET_SHOW_AI_DIALOG', payload: show }),
   setNetworkError: (error: string | null) => dispatch({ type: 'SET_NETWORK_ERROR', payload: error }),
   clearAllRequests: () => dispatch({ type: 'CLEAR_ALL_REQUESTS' }),
-  manageRequestsMemory: (requests: InterceptedRequest[]) => 
-    dispatch({ type: 'MANAGE_REQUESTS_MEMORY', payload: requests }),
   // 添加更多action创建器...
 });
@@ -0,0 +1,117 @@
+// 文件头特征，用于响应未声明类型或声明为octet-stream时识别内容
+const MAGIC_SIGNATURES: { mimeType: string; offset: number; bytes: number[] }[] = [
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { mimeType: 'image/x-icon', offset: 0, bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mimeType: 'image/bmp', offset: 0, bytes: [0x42, 0x4d] },
+  { mimeType: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46] },
+  { mimeType: 'application/zip', offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/gzip', offset: 0, bytes: [0x1f, 0x8b] },
+  { mimeType: 'application/wasm', offset: 0, bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { mimeType: 'font/woff', offset: 0, bytes: [0x77, 0x4f, 0x46, 0x46] },
+  { mimeType: 'font/woff2', offset: 0, bytes: [0x77, 0x4f, 0x46, 0x32] },
+  { mimeType: 'font/ttf', offset: 0, bytes: [0x00, 0x01, 0x00, 0x00] },
+  { mimeType: 'font/otf', offset: 0, bytes: [0x4f, 0x54, 0x54, 0x4f] },
+  { mimeType: 'video/mp4', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+  { mimeType: 'video/webm', offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mimeType: 'audio/mpeg', offset: 0, bytes: [0x49, 0x44, 0x33] },
+  { mimeType: 'audio/ogg', offset: 0, bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { mimeType: 'audio/wav', offset: 8, bytes: [0x57, 0x41, 0x56, 0x45] }
+];
+
+// 可按文本处理的内容类型
+const TEXT_MIME_PATTERN = /^text\/|[/+](json|xml|javascript|ecmascript|x-www-form-urlencoded|graphql|yaml|x-yaml|csv)\b|^image\/svg\+xml/i;
+
+// 十六进制视图最多显示的字节数
+export const HEX_VIEW_LIMIT = 64 * 1024;
+
+export const isTextMimeType = (mimeType: string): boolean => TEXT_MIME_PATTERN.test(mimeType);
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // 分段转换，避免参数过多导致栈溢出
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+const sniffMimeType = (bytes: Uint8Array): string | null => {
+  const signature = MAGIC_SIGNATURES.find(s =>
+    bytes.length >= s.offset + s.bytes.length && s.bytes.every((b, i) => bytes[s.offset + i] === b)
+  );
+  return signature ? signature.mimeType : null;
+};
+
+// 识别响应体的内容类型：优先使用Content-Type，未声明或为octet-stream时按文件头识别
+export function detectMimeType(headers: { name: string; value: string }[], bytes: Uint8Array): string {
+  const contentType = headers.find(h => h.name.toLowerCase() === 'content-type')?.value.split(';')[0].trim().toLowerCase();
+  if (contentType && contentType !== 'application/octet-stream') {
+    return contentType;
+  }
+
+  const sniffed = sniffMimeType(bytes);
+  if (sniffed) return sniffed;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'text/plain';
+  } catch {
+    return contentType || 'application/octet-stream';
+  }
+}
+
+// 二进制响应在原始响应文本中的占位内容
+export const binaryBodyPlaceholder = (mimeType: string, size: number): string =>
+  `[二进制内容: ${mimeType}, ${size} 字节]`;
+
+// 生成十六进制视图：偏移、16字节十六进制、ASCII
+export function hexDump(bytes: Uint8Array, limit = HEX_VIEW_LIMIT): string {
+  const lines: string[] = [];
+  const length = Math.min(bytes.length, limit);
+  for (let offset = 0; offset < length; offset += 16) {
+    const chunk = bytes.subarray(offset, Math.min(offset + 16, length));
+    const hex = Array.from(chunk).map(b => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(chunk).map(b => b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.').join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return lines.join('\n');
+}
+
+// 根据URL和内容类型生成保存文件名
+export function suggestFileName(url: string, mimeType: string): string {
+  let name = '';
+  try {
+    name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  } catch {
+    // 非法URL使用默认文件名
+  }
+  if (!name) name = 'response';
+  if (!name.includes('.')) {
+    const subtype = mimeType.split('/')[1]?.split('+')[0];
+    if (subtype) name += `.${subtype === 'javascript' ? 'js' : subtype === 'plain' ? 'txt' : subtype}`;
+  }
+  return name;
+}
+
+// 下载响应体
+export function downloadBody(bytes: Uint8Array, mimeType: string, fileName: string): void {
+  const blob = new Blob([new Uint8Array(bytes)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,126 @@
+import browser from 'webextension-polyfill';
+
+// 存储键
+export const CAPTURE_STORAGE_KEYS = {
+  CAPTURE_SETTINGS: 'captureSettings'
+};
+
+// 可被Fetch域拦截的资源类型（对应CDP Network.ResourceType，WebSocket不经过Fetch域）
+export const CAPTURE_RESOURCE_TYPES: { value: string; label: string }[] = [
+  { value: 'Document', label: '页面文档' },
+  { value: 'XHR', label: 'XHR' },
+  { value: 'Fetch', label: 'Fetch' },
+  { value: 'Script', label: '脚本' },
+  { value: 'Stylesheet', label: '样式表' },
+  { value: 'Image', label: '图片' },
+  { value: 'Media', label: '音视频' },
+  { value: 'Font', label: '字体' },
+  { value: 'EventSource', label: 'EventSource' },
+  { value: 'Ping', label: 'Ping/Beacon' },
+  { value: 'Manifest', label: 'Manifest' },
+  { value: 'Prefetch', label: '预取' },
+  { value: 'Preflight', label: 'CORS预检' },
+  { value: 'CSPViolationReport', label: 'CSP报告' },
+  { value: 'TextTrack', label: '字幕' },
+  { value: 'SignedExchange', label: 'SignedExchange' },
+  { value: 'Other', label: '其他' }
+];
+
+// 请求的来源目标：通过自动附加捕获的跨进程iframe、dedicated/shared worker和service worker
+export interface TargetOrigin {
+  type: string; // CDP TargetInfo.type
+  url: string;
+  title?: string;
+}
+
+// 来源目标在请求列表中的显示名称
+export const TARGET_TYPE_LABELS: Record<string, string> = {
+  iframe: 'iframe',
+  worker: 'Worker',
+  shared_worker: 'SharedWorker',
+  service_worker: 'SW'
+};
+
+// 抓包设置接口
+export interface CaptureSettings {
+  resourceTypes: string[];      // 需要捕获的资源类型
+  captureResponseStage: boolean; // 是否在响应阶段暂停以读取响应体
+  urlPatterns: string[];        // URL通配符（支持 * 和 ?），为空时匹配全部
+}
+
+// 默认抓包设置：页面文档、XHR和fetch请求
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  resourceTypes: ['Document', 'XHR', 'Fetch'],
+  captureResponseStage: true,
+  urlPatterns: []
+};
+
+// Fetch.enable使用的请求模式
+export interface FetchRequestPattern {
+  urlPattern?: string;
+  resourceType: string;
+  requestStage: 'Request' | 'Response';
+}
+
+// 根据抓包设置生成Fetch.enable的patterns
+export function buildFetchPatterns(settings: CaptureSettings): FetchRequestPattern[] {
+  const urlPatterns = settings.urlPatterns.filter(p => p.trim() !== '');
+  const stages: ('Request' | 'Response')[] = settings.captureResponseStage
+    ? ['Request', 'Response']
+    : ['Request'];
+  const patterns: FetchRequestPattern[] = [];
+
+  for (const requestStage of stages) {
+    for (const resourceType of settings.resourceTypes) {
+      if (urlPatterns.length === 0) {
+        patterns.push({ resourceType, requestStage });
+      } else {
+        urlPatterns.forEach(urlPattern => patterns.push({ urlPattern: urlPattern.trim(), resourceType, requestStage }));
+      }
+    }
+  }
+
+  return patterns;
+}
+
+// 将Fetch模式的URL通配符转换为正则：*匹配任意个字符，?匹配一个字符，反斜杠转义
+const urlPatternToRegex = (pattern: string): RegExp => {
+  const source = pattern.replace(/\\(.)|([*?])|([.+^${}()|[\]\\])/g, (_, escaped, wildcard, special) =>
+    escaped !== undefined ? escaped.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      : wildcard === '*' ? '.*'
+      : wildcard === '?' ? '.'
+      : `\\${special}`);
+  return new RegExp(`^${source}$`);
+};
+
+// 判断请求阶段的请求是否命中抓包设置生成的Fetch模式
+export function matchesCapturePatterns(settings: CaptureSettings, resourceType: string, url: string): boolean {
+  if (!settings.resourceTypes.includes(resourceType)) return false;
+  const urlPatterns = settings.urlPatterns.map(p => p.trim()).filter(p => p !== '');
+  return urlPatterns.length === 0 || urlPatterns.some(pattern => urlPatternToRegex(pattern).test(url));
+}
+
+// 抓包设置服务类
+export class CaptureService {
+  // 加载抓包设置
+  async loadSettings(): Promise<CaptureSettings> {
+    try {
+      const result = await browser.storage.local.get(CAPTURE_STORAGE_KEYS.CAPTURE_SETTINGS);
+      return { ...DEFAULT_CAPTURE_SETTINGS, ...(result[CAPTURE_STORAGE_KEYS.CAPTURE_SETTINGS] || {}) };
+    } catch (error) {
+      return DEFAULT_CAPTURE_SETTINGS;
+    }
+  }
+
+  // 保存抓包设置（后台脚本监听存储变化并实时应用到已附加的标签页）
+  async saveSettings(settings: CaptureSettings): Promise<void> {
+    try {
+      await browser.storage.local.set({ [CAPTURE_STORAGE_KEYS.CAPTURE_SETTINGS]: settings });
+    } catch (error) {
+      console.error('保存抓包设置失败:', error);
+      throw error;
+    }
+  }
+}
+
+export const captureService = new CaptureService();
@@ -0,0 +1,116 @@
+// 流式响应中的单个事件
+export interface StreamEvent {
+  id: number;
+  time: number;
+  event?: string; // SSE event字段
+  eventId?: string; // SSE id字段
+  data: string;
+}
+
+// 流式响应信息
+export interface EventStreamInfo {
+  state: 'open' | 'closed';
+  format: 'sse' | 'ndjson';
+  source: 'eventsource' | 'stream'; // 来自EventSource事件，或由响应数据流解析
+  events: StreamEvent[];
+  droppedEvents: number;
+  nextEventId: number;
+  buffer: string; // 尚未凑成完整行的数据
+  pending: { event?: string; eventId?: string; data: string[] }; // 尚未分发的SSE事件
+}
+
+// 单个响应在内存中最多保留的事件数
+export const MAX_STREAM_EVENTS = 5000;
+
+// 需要按流式响应处理的内容类型，不能在Response阶段读取响应体
+const STREAMING_MIME_PATTERN = /^(text\/event-stream|application\/(x-ndjson|stream\+json|jsonl|x-jsonlines))\b/i;
+
+export const isStreamingMimeType = (mimeType: string): boolean => STREAMING_MIME_PATTERN.test(mimeType.trim());
+
+export const createEventStreamInfo = (mimeType: string, source: EventStreamInfo['source']): EventStreamInfo => ({
+  state: 'open',
+  format: /event-stream/i.test(mimeType) ? 'sse' : 'ndjson',
+  source,
+  events: [],
+  droppedEvents: 0,
+  nextEventId: 1,
+  buffer: '',
+  pending: { data: [] }
+});
+
+// 追加事件，超出上限时丢弃最早的事件
+export function appendStreamEvent(info: EventStreamInfo, event: Omit<StreamEvent, 'id'>): void {
+  info.events.push({ ...event, id: info.nextEventId++ });
+  if (info.events.length > MAX_STREAM_EVENTS) {
+    const overflow = info.events.length - MAX_STREAM_EVENTS;
+    info.events.splice(0, overflow);
+    info.droppedEvents += overflow;
+  }
+}
+
+// 分发已收集的SSE事件
+const dispatchPending = (info: EventStreamInfo, time: number) => {
+  const { event, eventId, data } = info.pending;
+  if (data.length > 0) {
+    appendStreamEvent(info, { time, event, eventId, data: data.join('\n') });
+  }
+  info.pending = { data: [] };
+};
+
+// 按行解析数据块：SSE以空行分隔事件，NDJSON每行一个事件
+export function appendStreamChunk(info: EventStreamInfo, chunk: string, time = Date.now()): void {
+  info.buffer += chunk;
+  const lines = info.buffer.split(/\r\n|\r|\n/);
+  // 保留最后一行（可能不完整）
+  info.buffer = lines.pop() || '';
+
+  for (const line of lines) {
+    if (info.format === 'ndjson') {
+      if (line.trim()) appendStreamEvent(info, { time, data: line });
+      continue;
+    }
+
+    if (line === '') {
+      dispatchPending(info, time);
+      continue;
+    }
+    if (line.startsWith(':')) continue; // 注释行
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.substring(0, colonIndex);
+    const value = colonIndex === -1 ? '' : line.substring(colonIndex + 1).replace(/^ /, '');
+    if (field === 'data') {
+      info.pending.data.push(value);
+    } else if (field === 'event') {
+      info.pending.event = value;
+    } else if (field === 'id') {
+      info.pending.eventId = value;
+    }
+  }
+}
+
+// 流结束时处理剩余数据
+export function finishEventStream(info: EventStreamInfo, time = Date.now()): void {
+  if (info.buffer) {
+    appendStreamChunk(info, '\n', time);
+  }
+  if (info.format === 'sse') {
+    dispatchPending(info, time);
+  }
+  info.state = 'closed';
+}
+
+// 合并LLM流式接口的增量文本（OpenAI的choices[].delta.content、Anthropic的delta.text）
+export function mergeStreamText(events: StreamEvent[]): string {
+  let text = '';
+  for (const event of events) {
+    if (event.data === '[DONE]') continue;
+    try {
+      const json = JSON.parse(event.data);
+      text += json.choices?.[0]?.delta?.content || json.delta?.text || '';
+    } catch {
+      // 非JSON事件不参与合并
+    }
+  }
+  return text;
+}
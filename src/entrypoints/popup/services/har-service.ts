@@ -0,0 +1,332 @@
+import { HistoryEntry } from './history-service';
+import { NetworkInfo } from './network-info-service';
+import { WebSocketInfo, createWebSocketInfo, appendFrame } from './websocket-service';
+import { base64ToBytes, binaryBodyPlaceholder, detectMimeType, isTextMimeType } from './body-service';
+
+type Header = { name: string; value: string };
+
+// HAR 1.2 结构（只列出用到的字段）
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: { name: string; value: string }[];
+    headers: Header[];
+    queryString: { name: string; value: string }[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: { name: string; value: string }[];
+    headers: Header[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _transferSize?: number; // Chrome扩展字段：传输大小
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl: number;
+  };
+  serverIPAddress?: string;
+  connection?: string;
+  _resourceType?: string; // Chrome扩展字段
+  _webSocketMessages?: { type: 'send' | 'receive'; time: number; opcode: number; data: string }[];
+}
+
+export interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: { onContentLoad?: number; onLoad?: number };
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+// 拆分原始响应文本为状态行、响应头和响应体
+export function splitRawResponse(rawResponse?: string): {
+  httpVersion: string;
+  status: number;
+  statusText: string;
+  headers: Header[];
+  body: string;
+} | null {
+  const match = rawResponse?.match(/^(HTTP\/[\d.]+)\s+(\d{3})\s*([^\r\n]*)\r?\n/);
+  if (!rawResponse || !match) return null;
+
+  const separator = rawResponse.search(/\r?\n\r?\n/);
+  const headerPart = separator === -1 ? rawResponse : rawResponse.substring(0, separator);
+  const body = separator === -1 ? '' : rawResponse.substring(separator).replace(/^\r?\n\r?\n/, '');
+  const headers = headerPart.split(/\r?\n/).slice(1)
+    .map(line => {
+      const index = line.indexOf(':');
+      return index > 0 ? { name: line.substring(0, index).trim(), value: line.substring(index + 1).trim() } : null;
+    })
+    .filter((h): h is Header => h !== null);
+
+  return { httpVersion: match[1], status: Number(match[2]), statusText: match[3].trim(), headers, body };
+}
+
+const findHeader = (headers: Header[], name: string): string =>
+  headers.find(h => h.name.toLowerCase() === name)?.value || '';
+
+// 将base64解码为UTF-8文本，不是合法文本时返回null
+const base64ToText = (base64: string): string | null => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(base64ToBytes(base64));
+  } catch {
+    return null;
+  }
+};
+
+const parseCookieHeader = (value: string) =>
+  value.split(';')
+    .map(part => part.trim())
+    .filter(part => part.includes('='))
+    .map(part => ({ name: part.substring(0, part.indexOf('=')), value: part.substring(part.indexOf('=') + 1) }));
+
+// 将捕获的请求转换为HAR条目
+function toHarEntry(entry: HistoryEntry): HarEntry {
+  const network: NetworkInfo | undefined = entry.network;
+  // 以实际发出的请求为准（拦截修改或流量规则改写后）
+  const forwarded = entry.forwardedRequest || {
+    method: entry.request.method,
+    url: entry.request.url,
+    headers: entry.requestHeaders ||
+      Object.entries(entry.request.headers || {}).map(([name, value]) => ({ name, value: String(value) })),
+    postData: entry.request.postData
+  };
+  // 网络栈实际发送的请求头包含Cookie等浏览器追加的头部
+  const sent = { ...forwarded, headers: network?.requestHeaders || forwarded.headers };
+  const response = splitRawResponse(entry.rawResponse);
+  const responseHeaders: Header[] = response?.headers || entry.responseHeaders || [];
+  const mimeType = findHeader(responseHeaders, 'content-type') || entry.mimeType || 'x-unknown';
+  const body = response?.body || '';
+  const timing = network?.timing;
+  // HTTP版本以实际协议为准，h2/h3按Chrome导出HAR的写法
+  const httpVersion = network?.protocol
+    ? (/^h\d/.test(network.protocol) ? network.protocol : network.protocol.toUpperCase())
+    : response?.httpVersion || 'HTTP/1.1';
+  const remoteMatch = network?.remoteAddress?.match(/^\[?(.*?)\]?:(\d+)$/);
+
+  let queryString: { name: string; value: string }[] = [];
+  try {
+    queryString = Array.from(new URL(sent.url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+  } catch {
+    // 非法URL不解析查询参数
+  }
+
+  return {
+    pageref: entry.tabId !== undefined ? `page_${entry.tabId}` : undefined,
+    startedDateTime: new Date(entry.timestamp || Date.now()).toISOString(),
+    time: timing && timing.total >= 0 ? timing.total : 0,
+    request: {
+      method: sent.method,
+      url: sent.url,
+      httpVersion,
+      cookies: parseCookieHeader(findHeader(sent.headers, 'cookie')),
+      headers: sent.headers,
+      queryString,
+      postData: sent.postData !== undefined
+        ? { mimeType: findHeader(sent.headers, 'content-type') || 'application/octet-stream', text: sent.postData }
+        : undefined,
+      headersSize: -1,
+      bodySize: sent.postData !== undefined ? sent.postData.length : 0
+    },
+    response: {
+      status: response?.status || 0,
+      statusText: response?.statusText || '',
+      httpVersion,
+      cookies: responseHeaders
+        .filter(h => h.name.toLowerCase() === 'set-cookie')
+        .flatMap(h => parseCookieHeader(h.value.split(';')[0])),
+      headers: responseHeaders,
+      // 二进制响应体使用保留的原始字节
+      content: {
+        size: network?.decodedBodyLength ?? body.length,
+        mimeType,
+        text: entry.responseBodyBase64 || body,
+        encoding: entry.responseBodyBase64 ? 'base64' : undefined
+      },
+      redirectURL: findHeader(responseHeaders, 'location'),
+      headersSize: -1,
+      bodySize: -1,
+      _transferSize: network?.encodedDataLength ?? -1
+    },
+    cache: {},
+    timings: timing
+      ? {
+          blocked: timing.blocked, dns: timing.dns, connect: timing.connect, send: timing.send,
+          wait: timing.wait, receive: timing.receive, ssl: timing.ssl
+        }
+      : { blocked: -1, dns: -1, connect: -1, send: 0, wait: 0, receive: 0, ssl: -1 },
+    serverIPAddress: remoteMatch?.[1],
+    connection: remoteMatch?.[2],
+    // WebSocket帧按Chrome导出HAR的格式保存
+    _resourceType: entry.webSocket ? 'websocket' : undefined,
+    _webSocketMessages: (entry.webSocket as WebSocketInfo | undefined)?.frames
+      .filter(frame => !frame.error)
+      .map(frame => ({
+        type: frame.direction === 'sent' ? 'send' as const : 'receive' as const,
+        time: frame.time / 1000,
+        opcode: frame.opcode,
+        data: frame.payloadData
+      }))
+  };
+}
+
+// 导出HAR，按标签页分组为页面
+export function buildHar(entries: HistoryEntry[]): Har {
+  const sorted = [...entries].sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+  const pages = new Map<string, HarPage>();
+
+  sorted.forEach(entry => {
+    if (entry.tabId === undefined) return;
+    const id = `page_${entry.tabId}`;
+    if (!pages.has(id)) {
+      pages.set(id, {
+        startedDateTime: new Date(entry.timestamp || Date.now()).toISOString(),
+        id,
+        title: entry.tabId >= 0 ? `Tab ${entry.tabId}` : '导入的请求',
+        pageTimings: {}
+      });
+    }
+  });
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'FastBurp', version: '1.1.6' },
+      pages: Array.from(pages.values()),
+      entries: sorted.map(toHarEntry)
+    }
+  };
+}
+
+// 导入HAR，生成只读的历史请求
+export function parseHar(text: string): HistoryEntry[] {
+  let har: Har;
+  try {
+    har = JSON.parse(text);
+  } catch {
+    throw new Error('HAR文件不是有效的JSON');
+  }
+  if (!har?.log || !Array.isArray(har.log.entries)) {
+    throw new Error('无效的HAR文件：缺少log.entries');
+  }
+
+  const importId = `har-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+  return har.log.entries.map((harEntry, index) => {
+    const { request, response } = harEntry;
+    const requestHeaders: Header[] = (request.headers || []).filter(h => !h.name.startsWith(':'));
+    const responseHeaders: Header[] = (response?.headers || []).filter(h => !h.name.startsWith(':'));
+    const postData = request.postData?.text;
+
+    let rawRequest = `${request.method} ${request.url} HTTP/1.1\r\n`;
+    requestHeaders.forEach(h => rawRequest += `${h.name}: ${h.value}\r\n`);
+    if (postData) rawRequest += `\r\n${postData}`;
+
+    let rawResponse: string | undefined;
+    let responseBodyBase64: string | undefined;
+    let mimeType: string | undefined;
+    if (response && response.status) {
+      let body = response.content?.text || '';
+      if (response.content?.encoding === 'base64' && body) {
+        // 文本内容解码显示，二进制内容保留原始字节
+        const bytes = base64ToBytes(body);
+        mimeType = detectMimeType(responseHeaders, bytes);
+        const text = isTextMimeType(mimeType) ? base64ToText(body) : null;
+        if (text === null) {
+          responseBodyBase64 = body;
+          body = binaryBodyPlaceholder(mimeType, bytes.length);
+        } else {
+          body = text;
+        }
+      }
+      rawResponse = `HTTP/1.1 ${response.status}${response.statusText ? ` ${response.statusText}` : ''}\r\n`;
+      responseHeaders.forEach(h => rawResponse += `${h.name}: ${h.value}\r\n`);
+      rawResponse += `\r\n${body}`;
+    }
+
+    // 保留HAR中的耗时、大小和远程地址，便于分析
+    const network: NetworkInfo = {
+      protocol: request.httpVersion || undefined,
+      remoteAddress: harEntry.serverIPAddress
+        ? (harEntry.connection ? `${harEntry.serverIPAddress}:${harEntry.connection}` : harEntry.serverIPAddress)
+        : undefined,
+      encodedDataLength: response?._transferSize,
+      decodedBodyLength: response?.content?.size,
+      timing: harEntry.timings ? { ...harEntry.timings, total: harEntry.time ?? -1 } : undefined
+    };
+
+    let webSocket: WebSocketInfo | undefined;
+    if (harEntry._webSocketMessages) {
+      webSocket = createWebSocketInfo();
+      webSocket.state = 'closed';
+      harEntry._webSocketMessages.forEach(message => appendFrame(webSocket!, {
+        direction: message.type === 'send' ? 'sent' : 'received',
+        opcode: message.opcode,
+        payloadData: message.data,
+        time: message.time * 1000
+      }));
+    }
+
+    const timestamp = Date.parse(harEntry.startedDateTime);
+    return {
+      id: `${importId}-${index}`,
+      tabId: -1,
+      requestId: '',
+      request: {
+        url: request.url,
+        method: request.method,
+        headers: Object.fromEntries(requestHeaders.map(h => [h.name, h.value])),
+        postData
+      },
+      rawRequest,
+      rawResponse,
+      status: 'finished',
+      isRedirect: false,
+      requestHeaders,
+      responseHeaders,
+      timestamp: Number.isNaN(timestamp) ? Date.now() : timestamp,
+      imported: true,
+      network,
+      mimeType,
+      responseBodyBase64,
+      webSocket
+    };
+  });
+}
+
+// 下载HAR文件
+export function downloadHar(har: Har, fileName: string): void {
+  const blob = new Blob([JSON.stringify(har, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,275 @@
+import browser from 'webextension-polyfill';
+
+// 存储键
+export const HISTORY_STORAGE_KEYS = {
+  RETENTION_SETTINGS: 'historyRetentionSettings'
+};
+
+// IndexedDB配置（后台和弹窗同源，共用同一个数据库）
+const DB_NAME = 'fastburp-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'requests';
+
+// 历史保留策略（0表示不限制）
+export interface HistoryRetentionSettings {
+  maxCount: number;
+  maxAgeHours: number;
+  maxSizeMB: number;
+}
+
+// 默认保留策略
+export const DEFAULT_HISTORY_RETENTION_SETTINGS: HistoryRetentionSettings = {
+  maxCount: 5000,
+  maxAgeHours: 24 * 7,
+  maxSizeMB: 200
+};
+
+// 历史记录条目（与requestsStore中的请求结构一致）
+export interface HistoryEntry {
+  id: string;
+  timestamp?: number;
+  status: string;
+  request: { url: string; method: string; [key: string]: any };
+  rawRequest: string;
+  rawResponse?: string;
+  [key: string]: any;
+}
+
+// 写入数据库的记录，附加索引字段
+interface HistoryRecord extends HistoryEntry {
+  timestamp: number;
+  host: string;
+  method: string;
+  statusCode: number;
+  size: number;
+}
+
+// 历史查询条件
+export interface HistoryQuery {
+  host?: string;
+  method?: string;
+  statusCode?: number;
+  before?: number; // 只返回早于该时间的记录，用于分页加载
+  limit?: number;
+}
+
+// 历史统计
+export interface HistoryStats {
+  count: number;
+  totalSize: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// 估算记录大小（字符数）
+export const estimateEntrySize = (entry: HistoryEntry): number =>
+  (entry.rawRequest?.length || 0) + (entry.rawResponse?.length || 0) + (entry.responseBodyBase64?.length || 0) +
+  (entry.webSocket?.frames || []).reduce((size: number, frame: { payloadData: string }) => size + frame.payloadData.length, 0) +
+  (entry.eventStream?.events || []).reduce((size: number, event: { data: string }) => size + event.data.length, 0);
+
+// 从原始响应首行解析状态码
+const parseStatusCode = (rawResponse?: string): number => {
+  const match = rawResponse?.match(/^HTTP\/[\d.]+\s+(\d{3})/);
+  return match ? Number(match[1]) : 0;
+};
+
+const toRecord = (entry: HistoryEntry): HistoryRecord => {
+  let host = '';
+  try {
+    host = new URL(entry.request.url).host;
+  } catch {
+    // 非法URL不建立主机索引
+  }
+  return {
+    ...entry,
+    timestamp: entry.timestamp || Date.now(),
+    host,
+    method: entry.request.method.toUpperCase(),
+    statusCode: parseStatusCode(entry.rawResponse),
+    size: estimateEntrySize(entry)
+  };
+};
+
+// 请求历史服务类
+export class HistoryService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // 打开数据库，首次使用时创建存储和索引
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            // 复合索引按时间排序，便于按条件分页
+            store.createIndex('timestamp', 'timestamp');
+            store.createIndex('host', ['host', 'timestamp']);
+            store.createIndex('method', ['method', 'timestamp']);
+            store.createIndex('statusCode', ['statusCode', 'timestamp']);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // 写入或更新请求
+  async putRequests(entries: HistoryEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await this.openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    entries.forEach(entry => store.put(toRecord(entry)));
+    await transactionDone(transaction);
+  }
+
+  // 按时间倒序查询请求
+  async getRequests(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const before = query.before ?? Number.MAX_SAFE_INTEGER;
+    const limit = query.limit ?? 500;
+
+    // 优先使用条件对应的复合索引
+    let index: IDBIndex;
+    let range: IDBKeyRange;
+    if (query.host !== undefined) {
+      index = store.index('host');
+      range = IDBKeyRange.bound([query.host, 0], [query.host, before], false, true);
+    } else if (query.method !== undefined) {
+      index = store.index('method');
+      range = IDBKeyRange.bound([query.method.toUpperCase(), 0], [query.method.toUpperCase(), before], false, true);
+    } else if (query.statusCode !== undefined) {
+      index = store.index('statusCode');
+      range = IDBKeyRange.bound([query.statusCode, 0], [query.statusCode, before], false, true);
+    } else {
+      index = store.index('timestamp');
+      range = IDBKeyRange.upperBound(before, true);
+    }
+
+    const results: HistoryEntry[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const cursorRequest = index.openCursor(range, 'prev');
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || results.length >= limit) {
+          resolve();
+          return;
+        }
+        const record = cursor.value as HistoryRecord;
+        if ((query.method === undefined || record.method === query.method.toUpperCase()) &&
+            (query.statusCode === undefined || record.statusCode === query.statusCode)) {
+          results.push(record);
+        }
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+    return results;
+  }
+
+  // 按保留策略清理历史，返回删除的记录数
+  async applyRetention(settings: HistoryRetentionSettings): Promise<number> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const index = transaction.objectStore(STORE_NAME).index('timestamp');
+    const minTimestamp = settings.maxAgeHours > 0 ? Date.now() - settings.maxAgeHours * 60 * 60 * 1000 : 0;
+    const maxSize = settings.maxSizeMB > 0 ? settings.maxSizeMB * 1024 * 1024 : Infinity;
+    const maxCount = settings.maxCount > 0 ? settings.maxCount : Infinity;
+
+    let keptCount = 0;
+    let keptSize = 0;
+    let deletedCount = 0;
+
+    // 从最新的记录开始累计，超出任一限制后的记录全部删除
+    const cursorRequest = index.openCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const record = cursor.value as HistoryRecord;
+      // 导入的记录保留HAR中的原始时间，不按时长清理，否则较早的HAR导入后很快就会被删除
+      const expired = (!record.imported && record.timestamp < minTimestamp) ||
+        keptCount + 1 > maxCount ||
+        keptSize + record.size > maxSize;
+      if (expired) {
+        cursor.delete();
+        deletedCount++;
+      } else {
+        keptCount++;
+        keptSize += record.size;
+      }
+      cursor.continue();
+    };
+
+    await transactionDone(transaction);
+    return deletedCount;
+  }
+
+  // 获取历史统计
+  async getStats(): Promise<HistoryStats> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const stats: HistoryStats = { count: 0, totalSize: 0 };
+
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      stats.count++;
+      stats.totalSize += (cursor.value as HistoryRecord).size || 0;
+      cursor.continue();
+    };
+
+    await transactionDone(transaction);
+    return stats;
+  }
+
+  // 清空历史
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    await requestToPromise(transaction.objectStore(STORE_NAME).clear());
+  }
+
+  // 加载保留策略
+  async loadRetentionSettings(): Promise<HistoryRetentionSettings> {
+    try {
+      const result = await browser.storage.local.get(HISTORY_STORAGE_KEYS.RETENTION_SETTINGS);
+      return result[HISTORY_STORAGE_KEYS.RETENTION_SETTINGS] || DEFAULT_HISTORY_RETENTION_SETTINGS;
+    } catch (error) {
+      return DEFAULT_HISTORY_RETENTION_SETTINGS;
+    }
+  }
+
+  // 保存保留策略
+  async saveRetentionSettings(settings: HistoryRetentionSettings): Promise<void> {
+    try {
+      await browser.storage.local.set({ [HISTORY_STORAGE_KEYS.RETENTION_SETTINGS]: settings });
+    } catch (error) {
+      console.error('保存历史保留策略失败:', error);
+      throw error;
+    }
+  }
+}
+
+export const historyService = new HistoryService();
@@ -0,0 +1,163 @@
+import browser from 'webextension-polyfill';
+
+// 存储键
+export const INTERCEPT_RULE_STORAGE_KEYS = {
+  INTERCEPT_RULE_SETTINGS: 'interceptRuleSettings'
+};
+
+// 条件字段
+export enum InterceptConditionField {
+  METHOD = 'method',
+  URL = 'url',
+  HEADER = 'header',
+  BODY = 'body',
+  EXTENSION = 'extension'
+}
+
+// 拦截条件接口
+export interface InterceptCondition {
+  id: string;
+  field: InterceptConditionField;
+  headerName?: string; // 仅当field为HEADER时使用
+  value: string;       // 方法/扩展名为逗号分隔列表，URL为正则，请求头和请求体为包含的文本
+}
+
+// 拦截规则接口
+export interface InterceptRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  logic: 'and' | 'or';
+  conditions: InterceptCondition[];
+}
+
+// 拦截规则设置接口
+export interface InterceptRuleSettings {
+  enabled: boolean;
+  rules: InterceptRule[];
+}
+
+// 默认设置（未启用时拦截模式暂停所有范围内的请求）
+export const DEFAULT_INTERCEPT_RULE_SETTINGS: InterceptRuleSettings = {
+  enabled: false,
+  rules: []
+};
+
+// 参与匹配的请求信息
+export interface InterceptRequestInfo {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  postData?: string;
+}
+
+// 拆分逗号分隔的列表
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim().toLowerCase()).filter(item => item !== '');
+
+// 判断单个条件是否满足
+export function matchesCondition(request: InterceptRequestInfo, condition: InterceptCondition): boolean {
+  switch (condition.field) {
+    case InterceptConditionField.METHOD:
+      return splitList(condition.value).includes(request.method.toLowerCase());
+
+    case InterceptConditionField.URL:
+      try {
+        return new RegExp(condition.value, 'i').test(request.url);
+      } catch {
+        return false;
+      }
+
+    case InterceptConditionField.HEADER: {
+      const headerName = (condition.headerName || '').trim().toLowerCase();
+      if (!headerName) return false;
+      const header = Object.entries(request.headers || {}).find(([name]) => name.toLowerCase() === headerName);
+      if (!header) return false;
+      // 未填写值时只要求请求头存在
+      return !condition.value || String(header[1]).toLowerCase().includes(condition.value.toLowerCase());
+    }
+
+    case InterceptConditionField.BODY:
+      return !!request.postData && request.postData.includes(condition.value);
+
+    case InterceptConditionField.EXTENSION: {
+      let pathname = '';
+      try {
+        pathname = new URL(request.url).pathname;
+      } catch {
+        return false;
+      }
+      const lastSegment = pathname.substring(pathname.lastIndexOf('/') + 1);
+      const dotIndex = lastSegment.lastIndexOf('.');
+      const extension = dotIndex === -1 ? '' : lastSegment.substring(dotIndex + 1).toLowerCase();
+      return splitList(condition.value).map(ext => ext.replace(/^\./, '')).includes(extension);
+    }
+
+    default:
+      return false;
+  }
+}
+
+// 判断单条规则是否命中
+export function matchesInterceptRule(request: InterceptRequestInfo, rule: InterceptRule): boolean {
+  if (rule.conditions.length === 0) return false;
+  return rule.logic === 'and'
+    ? rule.conditions.every(condition => matchesCondition(request, condition))
+    : rule.conditions.some(condition => matchesCondition(request, condition));
+}
+
+// 判断请求是否需要暂停：任意一条启用的规则命中即暂停；未启用规则时全部暂停
+export function shouldInterceptRequest(request: InterceptRequestInfo, settings: InterceptRuleSettings): boolean {
+  if (!settings.enabled) return true;
+  const activeRules = settings.rules.filter(rule => rule.enabled);
+  if (activeRules.length === 0) return true;
+  return activeRules.some(rule => matchesInterceptRule(request, rule));
+}
+
+// 拦截规则服务类
+export class InterceptRuleService {
+  // 加载拦截规则设置
+  async loadSettings(): Promise<InterceptRuleSettings> {
+    try {
+      const result = await browser.storage.local.get(INTERCEPT_RULE_STORAGE_KEYS.INTERCEPT_RULE_SETTINGS);
+      return result[INTERCEPT_RULE_STORAGE_KEYS.INTERCEPT_RULE_SETTINGS] || DEFAULT_INTERCEPT_RULE_SETTINGS;
+    } catch (error) {
+      return DEFAULT_INTERCEPT_RULE_SETTINGS;
+    }
+  }
+
+  // 保存拦截规则设置
+  async saveSettings(settings: InterceptRuleSettings): Promise<void> {
+    try {
+      await browser.storage.local.set({ [INTERCEPT_RULE_STORAGE_KEYS.INTERCEPT_RULE_SETTINGS]: settings });
+    } catch (error) {
+      console.error('保存拦截规则失败:', error);
+      throw error;
+    }
+  }
+
+  // 创建新条件
+  createCondition(field: InterceptConditionField = InterceptConditionField.METHOD, value = ''): InterceptCondition {
+    return {
+      id: `cond-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      field,
+      value
+    };
+  }
+
+  // 创建新规则（默认示例：只拦截 POST /api/ 请求）
+  createRule(): InterceptRule {
+    return {
+      id: `intercept-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      name: '新规则',
+      enabled: true,
+      logic: 'and',
+      conditions: [
+        this.createCondition(InterceptConditionField.METHOD, 'POST'),
+        this.createCondition(InterceptConditionField.URL, '/api/')
+      ]
+    };
+  }
+}
+
+export const interceptRuleService = new InterceptRuleService();
@@ -0,0 +1,312 @@
+import browser from 'webextension-polyfill';
+import { ReplayOptions } from './replay-service';
+import { PayloadProcessor } from './payload-processing-service';
+
+// 存储键
+export const INTRUDER_STORAGE_KEYS = {
+  INTRUDER_CONFIG: 'intruderConfig'
+};
+
+// 载荷位置标记，§默认值§
+export const PAYLOAD_MARKER = '§';
+// 每个载荷集和每次攻击的上限，避免生成过多请求卡死浏览器
+export const MAX_PAYLOADS_PER_SET = 10000;
+export const MAX_ATTACK_REQUESTS = 5000;
+
+// 攻击类型
+export type IntruderAttackType = 'sniper' | 'battering-ram' | 'pitchfork' | 'cluster-bomb';
+
+export const ATTACK_TYPE_LABELS: Record<IntruderAttackType, string> = {
+  sniper: 'Sniper（逐个位置）',
+  'battering-ram': 'Battering ram（所有位置相同）',
+  pitchfork: 'Pitchfork（各位置并行取值）',
+  'cluster-bomb': 'Cluster bomb（所有组合）'
+};
+
+// 载荷来源：列表、数字范围、字符块、文件
+export type PayloadSetType = 'list' | 'numbers' | 'char-block' | 'file';
+
+export const PAYLOAD_SET_TYPE_LABELS: Record<PayloadSetType, string> = {
+  list: '列表',
+  numbers: '数字',
+  'char-block': '字符块',
+  file: '文件'
+};
+
+// 载荷集
+export interface PayloadSet {
+  type: PayloadSetType;
+  list: string; // 列表：每行一个
+  numberFrom: number;
+  numberTo: number;
+  numberStep: number;
+  numberPadding: number; // 补零到的最小位数，0表示不补零
+  blockBase: string; // 字符块：重复的字符串
+  blockMinLength: number;
+  blockMaxLength: number;
+  blockStep: number;
+  fileName?: string;
+  fileContent?: string; // 文件：每行一个
+  processors: PayloadProcessor[]; // 发送前依次执行的处理链
+}
+
+// 攻击配置
+export interface IntruderConfig {
+  rawRequest: string; // 含§标记的请求模板
+  tabId?: number; // 发送请求使用的浏览器标签页
+  attackType: IntruderAttackType;
+  payloadSets: PayloadSet[]; // sniper和battering ram只使用第一个
+  concurrency: number;
+  throttle: number; // 相邻两个请求的最小间隔（毫秒）
+  grepMatch: string; // 响应中查找的正则，不区分大小写
+  grepExtract: string; // 从响应中提取的正则，取第一个捕获组
+}
+
+// 从请求列表发送到测试器的请求
+export interface IntruderDraft {
+  rawRequest: string;
+  tabId?: number;
+}
+
+// 生成的一个攻击请求
+export interface AttackRequest {
+  payloads: string[]; // 本次使用的载荷，按位置（sniper和battering ram只有一个）
+  position?: number; // sniper的载荷所在位置，从1开始
+  rawRequest: string;
+}
+
+// 一个请求的结果
+export interface IntruderResult {
+  index: number; // 从1开始
+  payloads: string[];
+  position?: number;
+  statusCode?: number;
+  length: number; // 原始响应长度
+  duration: number; // 毫秒
+  error?: string;
+  grepMatched: boolean;
+  extracted?: string;
+}
+
+// 攻击的状态，由后台广播
+export interface IntruderAttackState {
+  id: string;
+  status: 'running' | 'finished' | 'stopped';
+  total: number;
+  startedAt: number;
+  results: IntruderResult[];
+}
+
+// 单个结果的完整请求和响应
+export interface IntruderResultDetail {
+  rawRequest: string;
+  rawResponse?: string;
+}
+
+export const createPayloadSet = (): PayloadSet => ({
+  type: 'list',
+  list: '',
+  numberFrom: 1,
+  numberTo: 10,
+  numberStep: 1,
+  numberPadding: 0,
+  blockBase: 'A',
+  blockMinLength: 1,
+  blockMaxLength: 100,
+  blockStep: 10,
+  processors: []
+});
+
+export const DEFAULT_INTRUDER_CONFIG: IntruderConfig = {
+  rawRequest: 'GET https://example.com/?q=§test§ HTTP/1.1\r\n',
+  attackType: 'sniper',
+  payloadSets: [createPayloadSet()],
+  concurrency: 5,
+  throttle: 0,
+  grepMatch: '',
+  grepExtract: ''
+};
+
+// 按§标记拆分请求模板：segments比默认值多一个，依次交替拼接即还原请求
+export function parsePayloadPositions(template: string): { segments: string[]; defaults: string[] } {
+  const parts = template.split(PAYLOAD_MARKER);
+  if (parts.length % 2 === 0) {
+    throw new Error('§标记不成对');
+  }
+  return {
+    segments: parts.filter((_, i) => i % 2 === 0),
+    defaults: parts.filter((_, i) => i % 2 === 1)
+  };
+}
+
+// 统计模板中的载荷位置数，标记不成对时返回-1
+export function countPayloadPositions(template: string): number {
+  const markers = template.split(PAYLOAD_MARKER).length - 1;
+  return markers % 2 === 0 ? markers / 2 : -1;
+}
+
+// 用给定的值填充各位置
+const fillPositions = (segments: string[], values: string[]): string =>
+  segments.reduce((request, segment, i) => request + segment + (i < values.length ? values[i] : ''), '');
+
+const splitLines = (text: string): string[] => text.replace(/\r/g, '').split('\n').filter(line => line !== '');
+
+// 生成载荷集的全部载荷
+export function generatePayloads(set: PayloadSet): string[] {
+  const payloads: string[] = [];
+  switch (set.type) {
+    case 'list':
+      return splitLines(set.list).slice(0, MAX_PAYLOADS_PER_SET);
+    case 'file':
+      return splitLines(set.fileContent || '').slice(0, MAX_PAYLOADS_PER_SET);
+    case 'numbers': {
+      const step = Math.abs(set.numberStep) || 1;
+      const direction = set.numberTo >= set.numberFrom ? 1 : -1;
+      for (let n = set.numberFrom; direction > 0 ? n <= set.numberTo : n >= set.numberTo; n += step * direction) {
+        if (payloads.length >= MAX_PAYLOADS_PER_SET) break;
+        const text = String(Math.abs(n)).padStart(set.numberPadding, '0');
+        payloads.push(n < 0 ? `-${text}` : text);
+      }
+      return payloads;
+    }
+    case 'char-block': {
+      if (!set.blockBase) return payloads;
+      const step = Math.max(1, set.blockStep);
+      for (let length = Math.max(1, set.blockMinLength); length <= set.blockMaxLength; length += step) {
+        if (payloads.length >= MAX_PAYLOADS_PER_SET) break;
+        payloads.push(set.blockBase.repeat(Math.ceil(length / set.blockBase.length)).substring(0, length));
+      }
+      return payloads;
+    }
+    default:
+      return payloads;
+  }
+}
+
+// 按攻击类型计算请求总数
+export function countAttackRequests(attackType: IntruderAttackType, positionCount: number, payloadLists: string[][]): number {
+  if (positionCount <= 0) return 0;
+  switch (attackType) {
+    case 'sniper':
+      return positionCount * (payloadLists[0]?.length || 0);
+    case 'battering-ram':
+      return payloadLists[0]?.length || 0;
+    case 'pitchfork':
+      return Math.min(...Array.from({ length: positionCount }, (_, i) => payloadLists[i]?.length || 0));
+    case 'cluster-bomb':
+      return Array.from({ length: positionCount }, (_, i) => payloadLists[i]?.length || 0).reduce((a, b) => a * b, 1);
+    default:
+      return 0;
+  }
+}
+
+// 按攻击类型逐个生成请求；payloadLists按位置对应（sniper和battering ram只用第一个）
+export function* generateAttackRequests(
+  template: string,
+  attackType: IntruderAttackType,
+  payloadLists: string[][]
+): Generator<AttackRequest> {
+  const { segments, defaults } = parsePayloadPositions(template);
+  const positionCount = defaults.length;
+  if (positionCount === 0) return;
+
+  switch (attackType) {
+    case 'sniper':
+      for (let position = 0; position < positionCount; position++) {
+        for (const payload of payloadLists[0] || []) {
+          const values = defaults.map((value, i) => i === position ? payload : value);
+          yield { payloads: [payload], position: position + 1, rawRequest: fillPositions(segments, values) };
+        }
+      }
+      break;
+    case 'battering-ram':
+      for (const payload of payloadLists[0] || []) {
+        yield { payloads: [payload], rawRequest: fillPositions(segments, defaults.map(() => payload)) };
+      }
+      break;
+    case 'pitchfork': {
+      const count = countAttackRequests(attackType, positionCount, payloadLists);
+      for (let i = 0; i < count; i++) {
+        const values = defaults.map((_, position) => payloadLists[position][i]);
+        yield { payloads: values, rawRequest: fillPositions(segments, values) };
+      }
+      break;
+    }
+    case 'cluster-bomb': {
+      const lists = defaults.map((_, position) => payloadLists[position] || []);
+      if (lists.some(list => list.length === 0)) return;
+      // 按里程表方式递增，最后一个位置变化最快
+      const indexes = lists.map(() => 0);
+      while (true) {
+        const values = indexes.map((index, position) => lists[position][index]);
+        yield { payloads: values, rawRequest: fillPositions(segments, values) };
+        let position = lists.length - 1;
+        while (position >= 0 && ++indexes[position] >= lists[position].length) {
+          indexes[position] = 0;
+          position--;
+        }
+        if (position < 0) break;
+      }
+      break;
+    }
+  }
+}
+
+// 编译grep正则，空字符串返回null，格式错误时抛出
+export function compileGrepPattern(pattern: string): RegExp | null {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    throw new Error(`正则表达式无效: ${pattern}`);
+  }
+}
+
+// 从响应中提取内容：有捕获组时取第一个捕获组，否则取整个匹配
+export function extractFromResponse(response: string, pattern: RegExp | null): string | undefined {
+  if (!pattern) return undefined;
+  const match = response.match(pattern);
+  return match ? (match[1] ?? match[0]) : undefined;
+}
+
+// 测试器服务类
+export class IntruderService {
+  // 加载攻击配置
+  async loadConfig(): Promise<IntruderConfig> {
+    try {
+      const result = await browser.storage.local.get(INTRUDER_STORAGE_KEYS.INTRUDER_CONFIG);
+      return { ...DEFAULT_INTRUDER_CONFIG, ...result[INTRUDER_STORAGE_KEYS.INTRUDER_CONFIG] };
+    } catch (error) {
+      return DEFAULT_INTRUDER_CONFIG;
+    }
+  }
+
+  // 保存攻击配置
+  async saveConfig(config: IntruderConfig): Promise<void> {
+    try {
+      await browser.storage.local.set({ [INTRUDER_STORAGE_KEYS.INTRUDER_CONFIG]: config });
+    } catch (error) {
+      console.error('保存测试器配置失败:', error);
+      throw error;
+    }
+  }
+
+  // 开始攻击，由后台通过重放引擎发送
+  async start(config: IntruderConfig, options: ReplayOptions): Promise<{ success: boolean; error?: string }> {
+    const result = await browser.runtime.sendMessage({ action: 'intruder-start', config, options }) as
+      { success: boolean; error?: string } | undefined;
+    return result || { success: false, error: '后台没有响应' };
+  }
+
+  // 停止攻击，已发出的请求仍会返回结果
+  async stop(): Promise<void> {
+    await browser.runtime.sendMessage({ action: 'intruder-stop' });
+  }
+
+  // 获取某个结果的完整请求和响应
+  async getResultDetail(index: number): Promise<IntruderResultDetail | undefined> {
+    return await browser.runtime.sendMessage({ action: 'intruder-get-result', index }) as IntruderResultDetail | undefined;
+  }
+}
+
+export const intruderService = new IntruderService();
@@ -0,0 +1,118 @@
+import browser from 'webextension-polyfill';
+
+// 存储键
+export const MAP_LOCAL_STORAGE_KEYS = {
+  MAP_LOCAL_RULES: 'mapLocalRules'
+};
+
+// 本地映射（自动响应）规则接口
+export interface MapLocalRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  method: string;        // 逗号分隔的请求方法，留空表示任意方法
+  urlPattern: string;    // URL正则
+  bodyPattern: string;   // 请求体正则，可选
+  statusCode: number;
+  statusText: string;
+  headers: string;       // 每行一个 "Name: value"
+  body: string;          // 文本响应体，或bodyBase64为true时的base64内容
+  bodyBase64: boolean;   // 响应体来自本地文件
+  fileName?: string;
+  latency: number;       // 返回响应前的延迟（毫秒）
+}
+
+// 参与匹配的请求信息
+export interface MapLocalRequestInfo {
+  method: string;
+  url: string;
+  postData?: string;
+}
+
+// 解析 "Name: value" 形式的多行头部
+export function parseHeaderLines(text: string): { name: string; value: string }[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => {
+      const separatorIndex = line.indexOf(':');
+      if (separatorIndex <= 0) return null;
+      return {
+        name: line.substring(0, separatorIndex).trim(),
+        value: line.substring(separatorIndex + 1).trim()
+      };
+    })
+    .filter((header): header is { name: string; value: string } => header !== null && header.name !== '');
+}
+
+const testRegex = (pattern: string, value: string): boolean => {
+  try {
+    return new RegExp(pattern, 'i').test(value);
+  } catch {
+    return false;
+  }
+};
+
+// 判断规则是否命中请求
+export function matchesMapLocalRule(request: MapLocalRequestInfo, rule: MapLocalRule): boolean {
+  const methods = rule.method.split(',').map(m => m.trim().toUpperCase()).filter(m => m !== '');
+  if (methods.length > 0 && !methods.includes(request.method.toUpperCase())) return false;
+  if (!rule.urlPattern || !testRegex(rule.urlPattern, request.url)) return false;
+  if (rule.bodyPattern && !testRegex(rule.bodyPattern, request.postData || '')) return false;
+  return true;
+}
+
+// 查找第一条命中的启用规则
+export function findMapLocalRule(request: MapLocalRequestInfo, rules: MapLocalRule[]): MapLocalRule | undefined {
+  return rules.find(rule => rule.enabled && matchesMapLocalRule(request, rule));
+}
+
+// 构造用于显示的原始响应文本
+export function buildMockRawResponse(rule: MapLocalRule): string {
+  let rawResponse = `HTTP/1.1 ${rule.statusCode}${rule.statusText ? ` ${rule.statusText}` : ''}\r\n`;
+  parseHeaderLines(rule.headers).forEach(h => rawResponse += `${h.name}: ${h.value}\r\n`);
+  rawResponse += `\r\n${rule.bodyBase64 ? `[本地文件: ${rule.fileName || '未命名'}]` : rule.body}`;
+  return rawResponse;
+}
+
+// 本地映射服务类
+export class MapLocalService {
+  // 加载本地映射规则
+  async loadRules(): Promise<MapLocalRule[]> {
+    try {
+      const result = await browser.storage.local.get(MAP_LOCAL_STORAGE_KEYS.MAP_LOCAL_RULES);
+      return result[MAP_LOCAL_STORAGE_KEYS.MAP_LOCAL_RULES] || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // 保存本地映射规则
+  async saveRules(rules: MapLocalRule[]): Promise<void> {
+    try {
+      await browser.storage.local.set({ [MAP_LOCAL_STORAGE_KEYS.MAP_LOCAL_RULES]: rules });
+    } catch (error) {
+      console.error('保存本地映射规则失败:', error);
+      throw error;
+    }
+  }
+
+  // 创建新规则
+  createRule(): MapLocalRule {
+    return {
+      id: `ml-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      name: '新规则',
+      enabled: true,
+      method: '',
+      urlPattern: '',
+      bodyPattern: '',
+      statusCode: 200,
+      statusText: 'OK',
+      headers: 'Content-Type: application/json; charset=utf-8',
+      body: '{}',
+      bodyBase64: false,
+      latency: 0
+    };
+  }
+}
+
+export const mapLocalService = new MapLocalService();
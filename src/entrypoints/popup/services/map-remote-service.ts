@@ -0,0 +1,127 @@
+import browser from 'webextension-polyfill';
+import { hostPatternToRegex } from './scope-service';
+
+// 存储键
+export const MAP_REMOTE_STORAGE_KEYS = {
+  MAP_REMOTE_RULES: 'mapRemoteRules'
+};
+
+// 远程映射规则接口
+export interface MapRemoteRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  fromProtocol: 'any' | 'http' | 'https';
+  fromHost: string;                      // 主机通配符（如 *.example.com）
+  fromPort: string;                      // 为空时匹配任意端口
+  fromPath: string;                      // 路径前缀，为空时匹配任意路径
+  toProtocol: 'keep' | 'http' | 'https';
+  toHost: string;                        // 为空时保持原主机
+  toPort: string;                        // 为空时使用目标协议的默认端口（未修改主机时保持原端口）
+  toPath: string;                        // 替换匹配的路径前缀，为空时保持原路径
+  preserveHost: boolean;                 // 保留原始Host请求头
+}
+
+type Header = { name: string; value: string };
+
+// 远程映射结果
+export interface MapRemoteResult {
+  url: string;
+  headers: Header[];
+  rule?: MapRemoteRule;
+}
+
+// 判断规则是否匹配URL
+export function matchesMapRemoteRule(url: URL, rule: MapRemoteRule): boolean {
+  const protocol = url.protocol.replace(':', '');
+  if (rule.fromProtocol !== 'any' && rule.fromProtocol !== protocol) return false;
+  if (!rule.fromHost.trim() || !hostPatternToRegex(rule.fromHost).test(url.hostname)) return false;
+  if (rule.fromPort.trim()) {
+    const port = url.port || (protocol === 'https' ? '443' : '80');
+    if (rule.fromPort.trim() !== port) return false;
+  }
+  return !rule.fromPath.trim() || url.pathname.startsWith(rule.fromPath.trim());
+}
+
+// 按规则改写URL
+export function rewriteUrl(url: URL, rule: MapRemoteRule): string {
+  const target = new URL(url.href);
+  if (rule.toProtocol !== 'keep') {
+    target.protocol = `${rule.toProtocol}:`;
+  }
+  if (rule.toHost.trim()) {
+    target.hostname = rule.toHost.trim();
+    target.port = rule.toPort.trim();
+  } else if (rule.toPort.trim()) {
+    target.port = rule.toPort.trim();
+  }
+  if (rule.toPath.trim()) {
+    const fromPath = rule.fromPath.trim();
+    const rest = fromPath ? url.pathname.substring(fromPath.length) : url.pathname;
+    const toPath = rule.toPath.trim();
+    target.pathname = toPath.endsWith('/') && rest.startsWith('/') ? toPath + rest.substring(1) : toPath + rest;
+  }
+  return target.href;
+}
+
+// 对即将发出的请求应用第一条命中的远程映射规则
+export function applyMapRemoteRules(url: string, headers: Header[], rules: MapRemoteRule[]): MapRemoteResult {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return { url, headers };
+  }
+
+  const rule = rules.find(r => r.enabled && matchesMapRemoteRule(parsedUrl, r));
+  if (!rule) return { url, headers };
+
+  const mappedHeaders = headers.filter(h => h.name.toLowerCase() !== 'host');
+  if (rule.preserveHost) {
+    mappedHeaders.push({ name: 'Host', value: parsedUrl.host });
+  }
+  return { url: rewriteUrl(parsedUrl, rule), headers: mappedHeaders, rule };
+}
+
+// 远程映射服务类
+export class MapRemoteService {
+  // 加载远程映射规则
+  async loadRules(): Promise<MapRemoteRule[]> {
+    try {
+      const result = await browser.storage.local.get(MAP_REMOTE_STORAGE_KEYS.MAP_REMOTE_RULES);
+      return result[MAP_REMOTE_STORAGE_KEYS.MAP_REMOTE_RULES] || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // 保存远程映射规则
+  async saveRules(rules: MapRemoteRule[]): Promise<void> {
+    try {
+      await browser.storage.local.set({ [MAP_REMOTE_STORAGE_KEYS.MAP_REMOTE_RULES]: rules });
+    } catch (error) {
+      console.error('保存远程映射规则失败:', error);
+      throw error;
+    }
+  }
+
+  // 创建新规则
+  createRule(): MapRemoteRule {
+    return {
+      id: `mrem-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      name: '新规则',
+      enabled: true,
+      fromProtocol: 'any',
+      fromHost: '',
+      fromPort: '',
+      fromPath: '',
+      toProtocol: 'http',
+      toHost: 'localhost',
+      toPort: '3000',
+      toPath: '',
+      preserveHost: false
+    };
+  }
+}
+
+export const mapRemoteService = new MapRemoteService();
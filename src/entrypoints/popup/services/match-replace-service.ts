@@ -0,0 +1,198 @@
+import browser from 'webextension-polyfill';
+
+// 存储键
+export const MATCH_REPLACE_STORAGE_KEYS = {
+  MATCH_REPLACE_RULES: 'matchReplaceRules'
+};
+
+// 替换目标
+export enum MatchReplaceTarget {
+  REQUEST_URL = 'request_url',
+  REQUEST_HEADER = 'request_header',
+  REQUEST_BODY = 'request_body',
+  RESPONSE_HEADER = 'response_header',
+  RESPONSE_BODY = 'response_body'
+}
+
+// 匹配替换规则接口
+export interface MatchReplaceRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  target: MatchReplaceTarget;
+  match: string;       // 请求头/响应头规则按 "Name: value" 整行匹配，留空表示添加新头部
+  replace: string;     // 请求头/响应头规则替换结果为空时删除该头部
+  isRegex: boolean;
+  urlPattern: string;  // 规则作用范围（URL正则），留空表示所有范围内的请求
+}
+
+type Header = { name: string; value: string };
+
+// 请求替换结果
+export interface MatchReplaceRequestResult {
+  url: string;
+  headers: Header[];
+  postData?: string;
+  modified: boolean;
+}
+
+// 响应替换结果
+export interface MatchReplaceResponseResult {
+  headers: Header[];
+  body: string;
+  headersModified: boolean;
+  bodyModified: boolean;
+}
+
+// 转义正则特殊字符
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 判断规则是否作用于该URL
+export function ruleAppliesToUrl(rule: MatchReplaceRule, url: string): boolean {
+  if (!rule.urlPattern) return true;
+  try {
+    return new RegExp(rule.urlPattern, 'i').test(url);
+  } catch {
+    return false;
+  }
+}
+
+// 对文本应用单条规则
+export function replaceText(text: string, rule: MatchReplaceRule): string {
+  if (!rule.match) return text;
+  try {
+    const regex = new RegExp(rule.isRegex ? rule.match : escapeRegExp(rule.match), 'g');
+    return text.replace(regex, rule.isRegex ? rule.replace : rule.replace.replace(/\$/g, '$$$$'));
+  } catch {
+    return text;
+  }
+}
+
+// 对头部列表应用单条规则：逐行匹配 "Name: value"，空结果删除该行，match为空时追加新头部
+export function replaceHeaders(headers: Header[], rule: MatchReplaceRule): Header[] {
+  if (!rule.match) {
+    const separatorIndex = rule.replace.indexOf(':');
+    if (separatorIndex <= 0) return headers;
+    return [...headers, {
+      name: rule.replace.substring(0, separatorIndex).trim(),
+      value: rule.replace.substring(separatorIndex + 1).trim()
+    }];
+  }
+
+  const result: Header[] = [];
+  headers.forEach(header => {
+    const line = `${header.name}: ${header.value}`;
+    const replaced = replaceText(line, rule);
+    if (replaced === line) {
+      result.push(header);
+      return;
+    }
+    const separatorIndex = replaced.indexOf(':');
+    if (!replaced.trim() || separatorIndex <= 0) return;
+    result.push({
+      name: replaced.substring(0, separatorIndex).trim(),
+      value: replaced.substring(separatorIndex + 1).trim()
+    });
+  });
+  return result;
+}
+
+const headersChanged = (before: Header[], after: Header[]): boolean =>
+  before.length !== after.length ||
+  before.some((header, index) => header.name !== after[index].name || header.value !== after[index].value);
+
+// 对即将发出的请求应用所有启用的规则
+export function applyRequestRules(
+  request: { url: string; headers: Header[]; postData?: string },
+  rules: MatchReplaceRule[]
+): MatchReplaceRequestResult {
+  let { url, headers, postData } = request;
+
+  rules
+    .filter(rule => rule.enabled && ruleAppliesToUrl(rule, request.url))
+    .forEach(rule => {
+      switch (rule.target) {
+        case MatchReplaceTarget.REQUEST_URL:
+          url = replaceText(url, rule);
+          break;
+        case MatchReplaceTarget.REQUEST_HEADER:
+          headers = replaceHeaders(headers, rule);
+          break;
+        case MatchReplaceTarget.REQUEST_BODY:
+          if (postData !== undefined) postData = replaceText(postData, rule);
+          break;
+      }
+    });
+
+  return {
+    url,
+    headers,
+    postData,
+    modified: url !== request.url || postData !== request.postData || headersChanged(request.headers, headers)
+  };
+}
+
+// 对收到的响应应用所有启用的规则
+export function applyResponseRules(
+  url: string,
+  response: { headers: Header[]; body: string },
+  rules: MatchReplaceRule[]
+): MatchReplaceResponseResult {
+  let { headers, body } = response;
+
+  rules
+    .filter(rule => rule.enabled && ruleAppliesToUrl(rule, url))
+    .forEach(rule => {
+      if (rule.target === MatchReplaceTarget.RESPONSE_HEADER) {
+        headers = replaceHeaders(headers, rule);
+      } else if (rule.target === MatchReplaceTarget.RESPONSE_BODY) {
+        body = replaceText(body, rule);
+      }
+    });
+
+  return {
+    headers,
+    body,
+    headersModified: headersChanged(response.headers, headers),
+    bodyModified: body !== response.body
+  };
+}
+
+// 匹配替换服务类
+export class MatchReplaceService {
+  // 加载匹配替换规则
+  async loadRules(): Promise<MatchReplaceRule[]> {
+    try {
+      const result = await browser.storage.local.get(MATCH_REPLACE_STORAGE_KEYS.MATCH_REPLACE_RULES);
+      return result[MATCH_REPLACE_STORAGE_KEYS.MATCH_REPLACE_RULES] || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // 保存匹配替换规则
+  async saveRules(rules: MatchReplaceRule[]): Promise<void> {
+    try {
+      await browser.storage.local.set({ [MATCH_REPLACE_STORAGE_KEYS.MATCH_REPLACE_RULES]: rules });
+    } catch (error) {
+      console.error('保存匹配替换规则失败:', error);
+      throw error;
+    }
+  }
+
+  // 创建新规则
+  createRule(target: MatchReplaceTarget = MatchReplaceTarget.REQUEST_HEADER): MatchReplaceRule {
+    return {
+      id: `mr-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      name: '新规则',
+      enabled: true,
+      target,
+      match: '',
+      replace: '',
+      isRegex: false,
+      urlPattern: ''
+    };
+  }
+}
+
+export const matchReplaceService = new MatchReplaceService();
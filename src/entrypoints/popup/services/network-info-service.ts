@@ -0,0 +1,97 @@
+// 请求各阶段耗时（毫秒，与HAR timings一致，-1表示不适用）
+export interface NetworkTiming {
+  blocked: number;
+  dns: number;
+  connect: number; // 包含ssl
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+  total: number;
+}
+
+// TLS连接信息（来自Network.SecurityDetails）
+export interface NetworkSecurityDetails {
+  protocol: string;
+  keyExchange: string;
+  cipher: string;
+  subjectName: string;
+  issuer: string;
+  validFrom: number; // 秒
+  validTo: number; // 秒
+  sanList: string[];
+}
+
+// 被浏览器阻止发送或保存的Cookie
+export interface BlockedCookie {
+  direction: 'request' | 'response'; // 请求中未发送的Cookie，或响应中未保存的Set-Cookie
+  name: string;
+  value: string; // 响应方向为完整的Set-Cookie行
+  reasons: string[]; // CDP的CookieBlockedReason/SetCookieBlockedReason
+}
+
+// 通过Network域收集的请求信息
+export interface NetworkInfo {
+  protocol?: string; // h2、http/1.1、h3等
+  remoteAddress?: string; // IP:端口
+  encodedDataLength?: number; // 传输大小（含响应头）
+  decodedBodyLength?: number; // 解码后的响应体大小
+  fromCache?: boolean;
+  failed?: string; // loadingFailed的错误信息
+  timing?: NetworkTiming;
+  securityState?: string;
+  securityDetails?: NetworkSecurityDetails;
+  // 以下来自ExtraInfo事件，为网络栈实际发送和收到的头部（含Cookie、Set-Cookie、Host等）
+  requestHeaders?: { name: string; value: string }[];
+  responseHeaders?: { name: string; value: string }[];
+  blockedCookies?: BlockedCookie[];
+  // 以下为计算耗时用的中间数据（CDP单调时钟，单位秒）
+  startTime?: number;
+  resourceTiming?: Record<string, number>;
+}
+
+// Network.ResourceTiming中各时间点是相对requestTime的毫秒数，未发生的阶段为-1
+const phase = (timing: Record<string, number>, start: string, end: string): number =>
+  timing[start] >= 0 && timing[end] >= 0 ? timing[end] - timing[start] : -1;
+
+const round = (value: number): number => value < 0 ? -1 : Math.round(value * 100) / 100;
+
+// 根据ResourceTiming和结束时间计算各阶段耗时
+export function computeTiming(info: NetworkInfo, endTime: number): NetworkTiming {
+  const total = info.startTime !== undefined ? (endTime - info.startTime) * 1000 : -1;
+  const timing = info.resourceTiming;
+  if (!timing) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0, total: round(total) };
+  }
+
+  // 从发起请求到开始DNS/连接/发送之间的排队时间
+  const requestOffset = info.startTime !== undefined ? (timing.requestTime - info.startTime) * 1000 : 0;
+  const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart].find(t => t >= 0) ?? 0;
+  const receiveEnd = (endTime - timing.requestTime) * 1000;
+
+  return {
+    blocked: round(Math.max(0, requestOffset) + firstStart),
+    dns: round(phase(timing, 'dnsStart', 'dnsEnd')),
+    connect: round(phase(timing, 'connectStart', 'connectEnd')),
+    ssl: round(phase(timing, 'sslStart', 'sslEnd')),
+    send: round(Math.max(0, phase(timing, 'sendStart', 'sendEnd'))),
+    wait: round(Math.max(0, phase(timing, 'sendEnd', 'receiveHeadersEnd'))),
+    receive: round(Math.max(0, receiveEnd - timing.receiveHeadersEnd)),
+    total: round(total)
+  };
+}
+
+// 格式化字节数
+export function formatBytes(size?: number): string {
+  if (size === undefined || size < 0) return '-';
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// 格式化耗时
+export function formatDuration(ms?: number): string {
+  if (ms === undefined || ms < 0) return '-';
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  return `${(ms / 1000).toFixed(2)} s`;
+}
@@ -0,0 +1,140 @@
+import { encoderDecoderService } from './encoder-decoder-service';
+
+// 载荷处理器类型
+export type PayloadProcessorType = 'prefix' | 'suffix' | 'case' | 'match-replace' | 'hash' | 'encode';
+
+export const PAYLOAD_PROCESSOR_LABELS: Record<PayloadProcessorType, string> = {
+  prefix: '添加前缀',
+  suffix: '添加后缀',
+  case: '大小写',
+  'match-replace': '匹配替换',
+  hash: '哈希',
+  encode: '编码'
+};
+
+export type PayloadCaseMode = 'upper' | 'lower' | 'capitalize' | 'invert';
+
+export const PAYLOAD_CASE_LABELS: Record<PayloadCaseMode, string> = {
+  upper: '全部大写',
+  lower: '全部小写',
+  capitalize: '首字母大写',
+  invert: '大小写互换'
+};
+
+// crypto.subtle支持的摘要算法
+export type PayloadHashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+export const PAYLOAD_HASH_ALGORITHMS: PayloadHashAlgorithm[] = ['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512'];
+
+// 载荷处理器，按顺序组成处理链
+export interface PayloadProcessor {
+  id: string;
+  type: PayloadProcessorType;
+  enabled: boolean;
+  text: string; // 前缀、后缀，或匹配替换的正则
+  replacement: string; // 匹配替换的替换内容，支持$1等引用
+  caseMode: PayloadCaseMode;
+  hashAlgorithm: PayloadHashAlgorithm;
+  encodeMethod: string; // EncoderDecoderService中的编码方法ID
+}
+
+export const createPayloadProcessor = (type: PayloadProcessorType): PayloadProcessor => ({
+  id: `processor-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+  type,
+  enabled: true,
+  text: '',
+  replacement: '',
+  caseMode: 'upper',
+  hashAlgorithm: 'SHA-256',
+  encodeMethod: 'url'
+});
+
+// 处理器的简短说明
+export function describeProcessor(processor: PayloadProcessor): string {
+  switch (processor.type) {
+    case 'prefix':
+    case 'suffix':
+      return `${PAYLOAD_PROCESSOR_LABELS[processor.type]} "${processor.text}"`;
+    case 'case':
+      return PAYLOAD_CASE_LABELS[processor.caseMode];
+    case 'match-replace':
+      return `/${processor.text}/ → "${processor.replacement}"`;
+    case 'hash':
+      return processor.hashAlgorithm;
+    case 'encode':
+      return `编码 ${encoderDecoderService.getMethodById(processor.encodeMethod)?.name || processor.encodeMethod}`;
+    default:
+      return '';
+  }
+}
+
+const changeCase = (input: string, mode: PayloadCaseMode): string => {
+  switch (mode) {
+    case 'upper':
+      return input.toUpperCase();
+    case 'lower':
+      return input.toLowerCase();
+    case 'capitalize':
+      return input.charAt(0).toUpperCase() + input.substring(1);
+    case 'invert':
+      return input.replace(/[a-zA-Z]/g, c => c === c.toUpperCase() ? c.toLowerCase() : c.toUpperCase());
+    default:
+      return input;
+  }
+};
+
+// 计算UTF-8文本的摘要，输出小写十六进制
+async function hashText(input: string, algorithm: PayloadHashAlgorithm): Promise<string> {
+  const digest = await crypto.subtle.digest(algorithm, new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 用单个处理器处理载荷；匹配替换的正则无效时抛出
+export async function applyProcessor(payload: string, processor: PayloadProcessor): Promise<string> {
+  switch (processor.type) {
+    case 'prefix':
+      return processor.text + payload;
+    case 'suffix':
+      return payload + processor.text;
+    case 'case':
+      return changeCase(payload, processor.caseMode);
+    case 'match-replace': {
+      if (!processor.text) return payload;
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(processor.text, 'g');
+      } catch {
+        throw new Error(`正则表达式无效: ${processor.text}`);
+      }
+      return payload.replace(pattern, processor.replacement);
+    }
+    case 'hash':
+      return hashText(payload, processor.hashAlgorithm);
+    case 'encode':
+      return encoderDecoderService.encode(payload, processor.encodeMethod);
+    default:
+      return payload;
+  }
+}
+
+// 按顺序执行处理链，返回每一步的结果（第一项为原始载荷），用于预览
+export async function previewProcessingChain(payload: string, chain: PayloadProcessor[]): Promise<string[]> {
+  const steps = [payload];
+  for (const processor of chain) {
+    if (!processor.enabled) continue;
+    steps.push(await applyProcessor(steps[steps.length - 1], processor));
+  }
+  return steps;
+}
+
+// 按顺序执行处理链
+export async function processPayload(payload: string, chain: PayloadProcessor[]): Promise<string> {
+  const steps = await previewProcessingChain(payload, chain);
+  return steps[steps.length - 1];
+}
+
+// 处理载荷集的全部载荷
+export async function processPayloads(payloads: string[], chain: PayloadProcessor[]): Promise<string[]> {
+  if (!chain.some(processor => processor.enabled)) return payloads;
+  return Promise.all(payloads.map(payload => processPayload(payload, chain)));
+}
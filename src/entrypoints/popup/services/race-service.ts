@@ -0,0 +1,131 @@
+import browser from 'webextension-polyfill';
+import { ReplayOptions } from './replay-service';
+
+// 存储键
+export const RACE_STORAGE_KEYS = {
+  RACE_CONFIG: 'raceConfig'
+};
+
+export const MAX_RACE_COPIES = 50;
+// 等待所有副本就绪的最长时间，超时后放行已就绪的副本
+export const RACE_GATE_TIMEOUT = 5 * 1000;
+// 页面定时发送时预留的准备时间，保证所有副本都已注入页面
+export const RACE_PAGE_DELAY = 500;
+
+// 同时放行的方式：调试器暂停后一起放行，或在页面中等到同一时刻发出（标签页未附加调试器时）
+export type RaceMode = 'gate' | 'page';
+
+export const RACE_MODE_LABELS: Record<RaceMode, string> = {
+  gate: '调试器暂停后同时放行',
+  page: '页面定时同时发送'
+};
+
+// 竞争测试配置
+export interface RaceConfig {
+  rawRequest: string; // 可包含§标记，各副本依次使用载荷列表中的值
+  tabId?: number;
+  copies: number;
+  payloads: string; // 每行一个，为空时发送相同的请求
+  warmUp: boolean; // 页面模式下先发一个HEAD请求建立keep-alive连接
+}
+
+// 从请求列表发送过来的请求
+export interface RaceDraft {
+  rawRequest: string;
+  tabId?: number;
+}
+
+// 一个副本的结果，时间均相对放行时刻（毫秒）
+export interface RaceCopyResult {
+  index: number; // 从1开始
+  payload?: string;
+  statusCode?: number;
+  length: number;
+  startOffset: number;
+  endOffset: number;
+  error?: string;
+  rawResponse?: string;
+  groupIndex: number;
+}
+
+// 响应内容相同（状态码和响应体）的副本归为一组
+export interface RaceResponseGroup {
+  statusCode?: number;
+  length: number;
+  indexes: number[];
+  rawResponse?: string;
+  error?: string;
+}
+
+// 一次竞争测试的结果
+export interface RaceRunResult {
+  success: boolean;
+  error?: string;
+  mode?: RaceMode;
+  releasedAt?: number;
+  readyCount?: number; // 放行时已就绪的副本数
+  copies: RaceCopyResult[];
+  groups: RaceResponseGroup[];
+}
+
+export const DEFAULT_RACE_CONFIG: RaceConfig = {
+  rawRequest: '',
+  copies: 10,
+  payloads: '',
+  warmUp: true
+};
+
+// 分组时忽略响应头（Date等头部每次都不同）
+const responseBody = (rawResponse: string): string => {
+  const normalized = rawResponse.replace(/\r/g, '');
+  const separatorIndex = normalized.indexOf('\n\n');
+  return separatorIndex === -1 ? '' : normalized.substring(separatorIndex + 2);
+};
+
+// 按状态码和响应体对副本分组，返回分组并写回各副本的groupIndex
+export function groupRaceResults(copies: Omit<RaceCopyResult, 'groupIndex'>[]): { copies: RaceCopyResult[]; groups: RaceResponseGroup[] } {
+  const groups: RaceResponseGroup[] = [];
+  const groupKeys: string[] = [];
+  const grouped = copies.map(copy => {
+    const key = copy.error ? `error\n${copy.error}` : `${copy.statusCode}\n${responseBody(copy.rawResponse || '')}`;
+    let groupIndex = groupKeys.indexOf(key);
+    if (groupIndex === -1) {
+      groupIndex = groupKeys.push(key) - 1;
+      groups.push({ statusCode: copy.statusCode, length: copy.length, indexes: [], rawResponse: copy.rawResponse, error: copy.error });
+    }
+    groups[groupIndex].indexes.push(copy.index);
+    return { ...copy, groupIndex };
+  });
+  return { copies: grouped, groups };
+}
+
+// 竞争测试服务类
+export class RaceService {
+  // 加载配置
+  async loadConfig(): Promise<RaceConfig> {
+    try {
+      const result = await browser.storage.local.get(RACE_STORAGE_KEYS.RACE_CONFIG);
+      return { ...DEFAULT_RACE_CONFIG, ...result[RACE_STORAGE_KEYS.RACE_CONFIG] };
+    } catch (error) {
+      return DEFAULT_RACE_CONFIG;
+    }
+  }
+
+  // 保存配置
+  async saveConfig(config: RaceConfig): Promise<void> {
+    try {
+      await browser.storage.local.set({ [RACE_STORAGE_KEYS.RACE_CONFIG]: config });
+    } catch (error) {
+      console.error('保存竞争测试配置失败:', error);
+      throw error;
+    }
+  }
+
+  // 发送一轮竞争请求，所有副本完成后返回
+  async run(config: RaceConfig, options: ReplayOptions): Promise<RaceRunResult> {
+    const result = await browser.runtime.sendMessage({ action: 'race-start', config, options }) as RaceRunResult | undefined;
+    return result || { success: false, error: '后台没有响应', copies: [], groups: [] };
+  }
+}
+
+export const raceService = new RaceService();
@@ -0,0 +1,153 @@
+import browser from 'webextension-polyfill';
+import { NetworkTiming } from './network-info-service';
+import { RedirectHop } from './replay-service';
+
+// 存储键
+export const REPEATER_STORAGE_KEYS = {
+  REPEATER_WORKSPACE: 'repeaterWorkspace'
+};
+
+// 每个子标签页保留的发送记录数
+export const MAX_REPEATER_HISTORY = 30;
+// 保存的响应文本上限，避免超出storage.local配额
+const MAX_STORED_RESPONSE_LENGTH = 256 * 1024;
+// 整个工作区的大小上限（字符数），storage.local总配额为10MB，还要留给其他设置
+export const MAX_WORKSPACE_SIZE = 4 * 1024 * 1024;
+
+// 一次发送：请求、响应和耗时
+export interface RepeaterExchange {
+  id: string;
+  sentAt: number;
+  rawRequest: string;
+  rawResponse?: string;
+  error?: string;
+  statusCode?: number;
+  duration: number; // 毫秒
+  timing?: NetworkTiming;
+  finalUrl?: string;
+  redirects?: RedirectHop[];
+  headersInjected?: boolean; // 请求头是否通过调试器按输入内容发送
+}
+
+// 重放器子标签页
+export interface RepeaterTab {
+  id: string;
+  name: string;
+  tabId?: number; // 发送请求使用的浏览器标签页（来源请求所在页面）
+  rawRequest: string; // 编辑中的请求
+  history: RepeaterExchange[];
+  historyIndex: number; // 当前查看的发送记录，-1表示尚未发送
+}
+
+// 重放器工作区
+export interface RepeaterWorkspace {
+  tabs: RepeaterTab[];
+  activeTabId: string | null;
+  nextTabNumber: number;
+}
+
+// 从请求列表发送到重放器的请求
+export interface RepeaterDraft {
+  rawRequest: string;
+  url: string;
+  method: string;
+  tabId?: number;
+}
+
+export const DEFAULT_REPEATER_WORKSPACE: RepeaterWorkspace = {
+  tabs: [],
+  activeTabId: null,
+  nextTabNumber: 1
+};
+
+// 以请求方法和主机命名新标签页
+const defaultTabName = (number: number, method?: string, url?: string): string => {
+  if (!url) return `#${number}`;
+  try {
+    return `#${number} ${method || 'GET'} ${new URL(url).host}`;
+  } catch {
+    return `#${number}`;
+  }
+};
+
+// 新建子标签页，返回新的工作区
+export function addRepeaterTab(workspace: RepeaterWorkspace, draft?: RepeaterDraft): RepeaterWorkspace {
+  const tab: RepeaterTab = {
+    id: `repeater-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+    name: defaultTabName(workspace.nextTabNumber, draft?.method, draft?.url),
+    tabId: draft?.tabId,
+    rawRequest: draft?.rawRequest || 'GET https://example.com/ HTTP/1.1\r\n',
+    history: [],
+    historyIndex: -1
+  };
+  return {
+    tabs: [...workspace.tabs, tab],
+    activeTabId: tab.id,
+    nextTabNumber: workspace.nextTabNumber + 1
+  };
+}
+
+// 追加发送记录并定位到最新一条，超出上限时丢弃最早的记录
+export function appendRepeaterExchange(tab: RepeaterTab, exchange: RepeaterExchange): RepeaterTab {
+  const stored: RepeaterExchange = exchange.rawResponse && exchange.rawResponse.length > MAX_STORED_RESPONSE_LENGTH
+    ? { ...exchange, rawResponse: `${exchange.rawResponse.substring(0, MAX_STORED_RESPONSE_LENGTH)}\n[响应过长，已截断]` }
+    : exchange;
+  const history = [...tab.history, stored].slice(-MAX_REPEATER_HISTORY);
+  return { ...tab, history, historyIndex: history.length - 1 };
+}
+
+const exchangeSize = (exchange: RepeaterExchange): number =>
+  exchange.rawRequest.length + (exchange.rawResponse?.length || 0) + (exchange.error?.length || 0);
+
+// 工作区超出大小上限时，按发送时间从最早的记录开始丢弃，各子标签页当前查看的记录保留
+export function trimRepeaterWorkspace(workspace: RepeaterWorkspace): RepeaterWorkspace {
+  let size = workspace.tabs.reduce(
+    (total, tab) => total + tab.rawRequest.length + tab.history.reduce((sum, exchange) => sum + exchangeSize(exchange), 0),
+    0
+  );
+  if (size <= MAX_WORKSPACE_SIZE) return workspace;
+
+  const removable = workspace.tabs
+    .flatMap(tab => tab.history.filter((_, index) => index !== tab.historyIndex))
+    .sort((a, b) => a.sentAt - b.sentAt);
+  const removed = new Set<RepeaterExchange>();
+  for (const exchange of removable) {
+    if (size <= MAX_WORKSPACE_SIZE) break;
+    removed.add(exchange);
+    size -= exchangeSize(exchange);
+  }
+  return {
+    ...workspace,
+    tabs: workspace.tabs.map(tab => {
+      if (!tab.history.some(exchange => removed.has(exchange))) return tab;
+      const current = tab.history[tab.historyIndex];
+      const history = tab.history.filter(exchange => !removed.has(exchange));
+      return { ...tab, history, historyIndex: current ? history.indexOf(current) : -1 };
+    })
+  };
+}
+
+// 重放器服务类
+export class RepeaterService {
+  // 加载工作区
+  async loadWorkspace(): Promise<RepeaterWorkspace> {
+    try {
+      const result = await browser.storage.local.get(REPEATER_STORAGE_KEYS.REPEATER_WORKSPACE);
+      return result[REPEATER_STORAGE_KEYS.REPEATER_WORKSPACE] || DEFAULT_REPEATER_WORKSPACE;
+    } catch (error) {
+      return DEFAULT_REPEATER_WORKSPACE;
+    }
+  }
+
+  // 保存工作区
+  async saveWorkspace(workspace: RepeaterWorkspace): Promise<void> {
+    try {
+      await browser.storage.local.set({ [REPEATER_STORAGE_KEYS.REPEATER_WORKSPACE]: workspace });
+    } catch (error) {
+      console.error('保存重放器工作区失败:', error);
+      throw error;
+    }
+  }
+}
+
+export const repeaterService = new RepeaterService();
@@ -0,0 +1,104 @@
+import browser from 'webextension-polyfill';
+import { NetworkTiming } from './network-info-service';
+
+// 存储键
+export const REPLAY_STORAGE_KEYS = {
+  REPLAY_OPTIONS: 'replayOptions'
+};
+
+type Header = { name: string; value: string };
+
+// 重放的执行环境：目标页面、扩展后台、新开的独立标签页
+export type ReplayContext = 'page' | 'background' | 'isolated-tab';
+
+// 重放选项
+export interface ReplayOptions {
+  context: ReplayContext;
+  credentials: 'include' | 'same-origin' | 'omit';
+  followRedirects: boolean;
+  timeout: number; // 毫秒
+}
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = {
+  context: 'page',
+  credentials: 'include',
+  followRedirects: true,
+  timeout: 30 * 1000
+};
+
+export const REPLAY_CONTEXT_LABELS: Record<ReplayContext, string> = {
+  page: '目标页面',
+  background: '扩展后台',
+  'isolated-tab': '独立标签页'
+};
+
+// 重放的请求
+export interface ReplayRequest {
+  url: string;
+  method: string;
+  headers: Header[];
+  body?: string;
+}
+
+// 重定向链中的一跳，status为0表示状态码未知（未经过调试器时只知道发生了重定向）
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location?: string;
+}
+
+// 重放结果
+export interface ReplayResult {
+  success: boolean;
+  statusCode?: number;
+  statusText?: string;
+  responseHeaders?: Header[];
+  rawResponse?: string;
+  error?: string;
+  sentAt: number;
+  duration: number; // 毫秒
+  timing?: NetworkTiming; // 经过调试器时的分阶段耗时
+  finalUrl?: string;
+  redirects: RedirectHop[];
+  headersInjected: boolean; // 请求头是否通过调试器按输入内容替换（含Cookie、Origin、Referer、Host等）
+  startedAt?: number; // 请求实际发出的时间（竞争测试中为放行时间）
+  completedAt?: number; // 读完响应体的时间
+}
+
+// 生成原始响应文本
+export function buildRawResponse(statusCode: number, statusText: string, headers: Header[], body: string): string {
+  let rawResponse = `HTTP/1.1 ${statusCode}${statusText ? ` ${statusText}` : ''}\r\n`;
+  headers.forEach(h => rawResponse += `${h.name}: ${h.value}\r\n`);
+  return `${rawResponse}\r\n${body}`;
+}
+
+// 重放服务类
+export class ReplayService {
+  // 加载重放选项
+  async loadOptions(): Promise<ReplayOptions> {
+    try {
+      const result = await browser.storage.local.get(REPLAY_STORAGE_KEYS.REPLAY_OPTIONS);
+      return { ...DEFAULT_REPLAY_OPTIONS, ...result[REPLAY_STORAGE_KEYS.REPLAY_OPTIONS] };
+    } catch (error) {
+      return DEFAULT_REPLAY_OPTIONS;
+    }
+  }
+
+  // 保存重放选项
+  async saveOptions(options: ReplayOptions): Promise<void> {
+    try {
+      await browser.storage.local.set({ [REPLAY_STORAGE_KEYS.REPLAY_OPTIONS]: options });
+    } catch (error) {
+      console.error('保存重放选项失败:', error);
+      throw error;
+    }
+  }
+
+  // 发送原始请求，由后台按选项执行；headers用于覆盖原始请求中的请求头
+  async replay(rawRequest: string, tabId: number | undefined, options: ReplayOptions, headers?: Header[]): Promise<ReplayResult> {
+    const result = await browser.runtime.sendMessage({ action: 'replay', rawRequest, tabId, options, headers }) as ReplayResult | undefined;
+    return result || { success: false, error: '后台没有响应', sentAt: Date.now(), duration: 0, redirects: [], headersInjected: false };
+  }
+}
+
+export const replayService = new ReplayService();
@@ -0,0 +1,133 @@
+import browser from 'webextension-polyfill';
+
+// 存储键
+export const SCOPE_STORAGE_KEYS = {
+  SCOPE_SETTINGS: 'scopeSettings'
+};
+
+// 范围规则类型
+export type ScopeRuleType = 'include' | 'exclude';
+
+// 范围规则接口
+export interface ScopeRule {
+  id: string;
+  enabled: boolean;
+  type: ScopeRuleType;
+  protocol: 'any' | 'http' | 'https';
+  host: string;                       // 主机通配符（如 *.example.com），为空时匹配任意主机
+  port: string;                       // 端口，为空时匹配任意端口
+  path: string;                       // 路径前缀或正则，为空时匹配任意路径
+  pathMatch: 'prefix' | 'regex';
+}
+
+// 范围设置接口
+export interface ScopeSettings {
+  enabled: boolean;
+  rules: ScopeRule[];
+}
+
+// 默认范围设置（未启用时所有请求都在范围内）
+export const DEFAULT_SCOPE_SETTINGS: ScopeSettings = {
+  enabled: false,
+  rules: []
+};
+
+// 将主机通配符转换为正则，*.example.com 同时匹配 example.com 本身
+export function hostPatternToRegex(pattern: string): RegExp {
+  const escaped = pattern.trim().toLowerCase()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  const withBareDomain = escaped.startsWith('.*\\.') ? `(?:.*\\.)?${escaped.substring(4)}` : escaped;
+  return new RegExp(`^${withBareDomain}$`, 'i');
+}
+
+// 判断单条规则是否匹配URL
+export function matchesScopeRule(url: URL, rule: ScopeRule): boolean {
+  const protocol = url.protocol.replace(':', '');
+  if (rule.protocol !== 'any' && rule.protocol !== protocol) return false;
+
+  if (rule.host.trim() && !hostPatternToRegex(rule.host).test(url.hostname)) return false;
+
+  if (rule.port.trim()) {
+    const port = url.port || (protocol === 'https' ? '443' : '80');
+    if (rule.port.trim() !== port) return false;
+  }
+
+  if (rule.path.trim()) {
+    if (rule.pathMatch === 'regex') {
+      try {
+        if (!new RegExp(rule.path).test(url.pathname + url.search)) return false;
+      } catch {
+        return false;
+      }
+    } else if (!url.pathname.startsWith(rule.path.trim())) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// 判断URL是否在目标范围内：按顺序匹配，第一条命中的规则决定结果；
+// 没有规则命中时，只要存在启用的包含规则就视为范围外
+export function isUrlInScope(url: string, settings: ScopeSettings): boolean {
+  if (!settings.enabled) return true;
+
+  const activeRules = settings.rules.filter(rule => rule.enabled);
+  if (activeRules.length === 0) return true;
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return false;
+  }
+
+  for (const rule of activeRules) {
+    if (matchesScopeRule(parsedUrl, rule)) {
+      return rule.type === 'include';
+    }
+  }
+
+  return !activeRules.some(rule => rule.type === 'include');
+}
+
+// 范围服务类
+export class ScopeService {
+  // 加载范围设置
+  async loadSettings(): Promise<ScopeSettings> {
+    try {
+      const result = await browser.storage.local.get(SCOPE_STORAGE_KEYS.SCOPE_SETTINGS);
+      return result[SCOPE_STORAGE_KEYS.SCOPE_SETTINGS] || DEFAULT_SCOPE_SETTINGS;
+    } catch (error) {
+      return DEFAULT_SCOPE_SETTINGS;
+    }
+  }
+
+  // 保存范围设置
+  async saveSettings(settings: ScopeSettings): Promise<void> {
+    try {
+      await browser.storage.local.set({ [SCOPE_STORAGE_KEYS.SCOPE_SETTINGS]: settings });
+    } catch (error) {
+      console.error('保存范围设置失败:', error);
+      throw error;
+    }
+  }
+
+  // 创建一条新的范围规则
+  createRule(type: ScopeRuleType = 'include', host = ''): ScopeRule {
+    return {
+      id: `scope-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      enabled: true,
+      type,
+      protocol: 'any',
+      host,
+      port: '',
+      path: '',
+      pathMatch: 'prefix'
+    };
+  }
+}
+
+export const scopeService = new ScopeService();
@@ -0,0 +1,136 @@
+import browser from 'webextension-polyfill';
+import { hostPatternToRegex } from './scope-service';
+
+// 存储键
+export const TAB_TARGET_STORAGE_KEYS = {
+  TAB_TARGET_SETTINGS: 'tabTargetSettings',
+  TAB_TARGET_URLS: 'tabTargetUrls'
+};
+
+// 抓包目标：当前标签页、选中的标签页、主机匹配的标签页、整个窗口或所有标签页
+export type TabTargetMode = 'current' | 'selected' | 'host' | 'window' | 'all';
+
+// 抓包目标设置
+// 各目标标签页最近的URL，浏览器重启后标签页ID变化，据此重新对应；
+// 由后台单独保存，避免导航时改写抓包目标设置
+export type TabTargetUrls = Record<number, string>;
+
+export interface TabTargetSettings {
+  mode: TabTargetMode;
+  tabIds: number[];      // current/selected模式下的标签页
+  hostPattern: string;   // host模式下的主机通配符，多个用逗号分隔
+  windowId?: number;     // window模式下的窗口
+}
+
+export const DEFAULT_TAB_TARGET_SETTINGS: TabTargetSettings = {
+  mode: 'current',
+  tabIds: [],
+  hostPattern: ''
+};
+
+// 判断标签页是否需要附加调试器，只抓取http(s)页面
+export function isTabTargeted(tab: { id?: number; url?: string; windowId?: number }, settings: TabTargetSettings): boolean {
+  if (tab.id === undefined || !tab.url || !/^https?:/i.test(tab.url)) return false;
+
+  switch (settings.mode) {
+    case 'all':
+      return true;
+    case 'current':
+    case 'selected':
+      return settings.tabIds.includes(tab.id);
+    case 'window':
+      return tab.windowId !== undefined && tab.windowId === settings.windowId;
+    case 'host': {
+      let hostname: string;
+      try {
+        hostname = new URL(tab.url).hostname;
+      } catch {
+        return false;
+      }
+      return settings.hostPattern.split(',')
+        .map(pattern => pattern.trim())
+        .filter(Boolean)
+        .some(pattern => hostPatternToRegex(pattern).test(hostname));
+    }
+    default:
+      return false;
+  }
+}
+
+// 浏览器重启后重新对应current/selected模式的标签页：ID和URL都未变的保留，其余按URL找到新的标签页；
+// current模式找不到时改用当前标签页，selected模式找不到的丢弃
+export function restoreTabTargets(
+  settings: TabTargetSettings,
+  tabUrls: TabTargetUrls,
+  tabs: { id?: number; url?: string }[],
+  currentTab?: { id?: number; url?: string }
+): TabTargetSettings {
+  if (settings.mode !== 'current' && settings.mode !== 'selected') return settings;
+  const tabIds: number[] = [];
+  const claim = (tab?: { id?: number; url?: string }) => {
+    if (tab?.id === undefined || tabIds.includes(tab.id)) return false;
+    tabIds.push(tab.id);
+    return true;
+  };
+  const staleIds = settings.tabIds.filter(id => !claim(tabs.find(tab => tab.id === id && tab.url === tabUrls[id])));
+  staleIds.forEach(id => {
+    const url = tabUrls[id];
+    claim(url ? tabs.find(tab => tab.url === url && !tabIds.includes(tab.id!)) : undefined);
+  });
+  if (settings.mode === 'current' && tabIds.length === 0) {
+    claim(currentTab);
+  }
+  return { ...settings, tabIds };
+}
+
+// 抓包目标服务类
+export class TabTargetService {
+  // 加载抓包目标设置
+  async loadSettings(): Promise<TabTargetSettings> {
+    try {
+      const result = await browser.storage.local.get(TAB_TARGET_STORAGE_KEYS.TAB_TARGET_SETTINGS);
+      return { ...DEFAULT_TAB_TARGET_SETTINGS, ...result[TAB_TARGET_STORAGE_KEYS.TAB_TARGET_SETTINGS] };
+    } catch (error) {
+      return DEFAULT_TAB_TARGET_SETTINGS;
+    }
+  }
+
+  // 保存抓包目标设置
+  async saveSettings(settings: TabTargetSettings): Promise<void> {
+    try {
+      await browser.storage.local.set({ [TAB_TARGET_STORAGE_KEYS.TAB_TARGET_SETTINGS]: settings });
+    } catch (error) {
+      console.error('保存抓包目标设置失败:', error);
+      throw error;
+    }
+  }
+
+  // 加载目标标签页的URL
+  async loadTabUrls(): Promise<TabTargetUrls> {
+    try {
+      const result = await browser.storage.local.get(TAB_TARGET_STORAGE_KEYS.TAB_TARGET_URLS);
+      return result[TAB_TARGET_STORAGE_KEYS.TAB_TARGET_URLS] || {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  // 保存目标标签页的URL
+  async saveTabUrls(tabUrls: TabTargetUrls): Promise<void> {
+    try {
+      await browser.storage.local.set({ [TAB_TARGET_STORAGE_KEYS.TAB_TARGET_URLS]: tabUrls });
+    } catch (error) {
+      console.error('保存目标标签页URL失败:', error);
+      throw error;
+    }
+  }
+
+  // 获取用户正在浏览的标签页（独立窗口打开时排除插件自身页面）
+  async getCurrentTab(): Promise<browser.Tabs.Tab | undefined> {
+    const tabs = await browser.tabs.query({ active: true, url: ['http://*/*', 'https://*/*'] });
+    const focusedWindow = await browser.windows.getLastFocused().catch(() => undefined);
+    return tabs.find(tab => tab.windowId === focusedWindow?.id) || tabs[0];
+  }
+}
+
+export const tabTargetService = new TabTargetService();
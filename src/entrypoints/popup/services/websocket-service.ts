@@ -0,0 +1,117 @@
+// WebSocket帧方向
+export type WebSocketDirection = 'sent' | 'received';
+
+// WebSocket帧（payloadData在二进制帧时为base64）
+export interface WebSocketFrame {
+  id: number;
+  direction: WebSocketDirection;
+  opcode: number;
+  payloadData: string;
+  time: number;
+  error?: string; // webSocketFrameError的错误信息
+}
+
+// WebSocket连接信息
+export interface WebSocketInfo {
+  state: 'connecting' | 'open' | 'closed';
+  frames: WebSocketFrame[];
+  droppedFrames: number; // 超出上限被丢弃的早期帧数
+  nextFrameId: number;
+}
+
+// WS重放会话：在原连接上发送（live），或从目标页面新建连接发送（new）
+export interface WebSocketRepeaterSession {
+  id: string;
+  connectionId: string; // 来源连接在请求列表中的ID
+  tabId: number;
+  debuggerSessionId?: string; // 连接所在的子调试目标（跨进程iframe、worker）
+  url: string;
+  mode: 'live' | 'new';
+  socket: WebSocketInfo; // 发送的消息和之后收到的帧
+  error?: string;
+  createdAt: number;
+}
+
+// 单个连接在内存中最多保留的帧数
+export const MAX_WEBSOCKET_FRAMES = 5000;
+
+// 帧类型
+export const WEBSOCKET_OPCODES: Record<number, string> = {
+  0: '续帧',
+  1: '文本',
+  2: '二进制',
+  8: '关闭',
+  9: 'Ping',
+  10: 'Pong'
+};
+
+export const opcodeLabel = (opcode: number): string =>
+  opcode < 0 ? '错误' : WEBSOCKET_OPCODES[opcode] || `0x${opcode.toString(16)}`;
+
+export const isBinaryFrame = (frame: WebSocketFrame): boolean => frame.opcode === 2;
+
+// 帧的负载字节数
+export function framePayloadLength(frame: WebSocketFrame): number {
+  if (isBinaryFrame(frame)) {
+    const padding = frame.payloadData.endsWith('==') ? 2 : frame.payloadData.endsWith('=') ? 1 : 0;
+    return Math.floor(frame.payloadData.length * 3 / 4) - padding;
+  }
+  return new TextEncoder().encode(frame.payloadData).length;
+}
+
+export const createWebSocketInfo = (): WebSocketInfo => ({
+  state: 'connecting',
+  frames: [],
+  droppedFrames: 0,
+  nextFrameId: 1
+});
+
+// 追加帧，超出上限时丢弃最早的帧
+export function appendFrame(info: WebSocketInfo, frame: Omit<WebSocketFrame, 'id'>): void {
+  info.frames.push({ ...frame, id: info.nextFrameId++ });
+  if (info.frames.length > MAX_WEBSOCKET_FRAMES) {
+    const overflow = info.frames.length - MAX_WEBSOCKET_FRAMES;
+    info.frames.splice(0, overflow);
+    info.droppedFrames += overflow;
+  }
+}
+
+// 按关键字或正则搜索帧内容，正则无效时返回null
+export function filterFrames(frames: WebSocketFrame[], query: string, isRegex: boolean): WebSocketFrame[] | null {
+  if (!query) return frames;
+  if (isRegex) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(query, 'i');
+    } catch {
+      return null;
+    }
+    return frames.filter(frame => regex.test(frame.payloadData));
+  }
+  const lowerQuery = query.toLowerCase();
+  return frames.filter(frame => frame.payloadData.toLowerCase().includes(lowerQuery));
+}
+
+// 导出帧为JSON文件
+export function exportFrames(url: string, frames: WebSocketFrame[]): void {
+  const data = {
+    url,
+    exportedAt: new Date().toISOString(),
+    frames: frames.map(frame => ({
+      direction: frame.direction,
+      time: new Date(frame.time).toISOString(),
+      opcode: frame.opcode,
+      type: opcodeLabel(frame.opcode),
+      encoding: isBinaryFrame(frame) ? 'base64' : 'text',
+      data: frame.payloadData,
+      error: frame.error
+    }))
+  };
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const downloadUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = downloadUrl;
+  link.download = `websocket-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(downloadUrl), 1000);
+}